@@ -0,0 +1,170 @@
+/**
+ * 英文界面文本，同时是所有语言的基准：新增的键必须先在这里定义，
+ * 其他语言缺少的键会回退到这里的英文
+ */
+const en = {
+	'command.collapseAll': 'Collapse all embeds in current note',
+	'command.expandAll': 'Expand all embeds in current note',
+	'command.toggleAtCursor': 'Toggle embed at cursor',
+	'command.editAtCursor': 'Edit or finish editing embed at cursor',
+	'command.jumpAtCursor': 'Jump to source of embed at cursor',
+	'command.toggleEditPreview': 'Toggle embed edit preview',
+	'command.finishAllEditing': 'Finish editing all embeds',
+
+	'titleBar.edit': 'Edit',
+	'titleBar.done': 'Done',
+	'titleBar.history': 'History',
+	'titleBar.jump': 'Open',
+	'titleBar.doneLabel': 'Finish editing {title}',
+	'titleBar.editLabel': 'Edit {title}',
+	'titleBar.historyLabel': 'History of {title}',
+	'titleBar.jumpLabel': 'Open {title}',
+	'titleBar.more': 'More actions',
+	'titleBar.locked': 'Locked (read-only)',
+	'titleBar.lockedEdit': 'This note is locked and cannot be edited',
+	'titleBar.unsaved': 'Unsaved changes',
+
+	'badge.tag': 'Tag {tag}',
+	'badge.moreTags': 'More tags: {tags}',
+	'badge.modified': 'Modified {time}',
+	'badge.words': '{count} words',
+	'badge.wordsLabel': '{count} words in total',
+	'badge.backlinks': '{count} notes link to or embed this note',
+
+	'preview.label': 'Preview',
+	'preview.editTab': 'Edit',
+	'preview.previewTab': 'Preview',
+
+	'toast.saved': '✅ Saved',
+	'toast.saveFailed': '❌ Save failed',
+
+	'notice.lockedEdit': '{name} is locked and cannot be edited',
+	'notice.lockedSave': '{name} is locked; your changes were not saved',
+	'notice.lockedRestore': '{name} is locked; previous versions cannot be restored',
+	'notice.sectionNotFound': 'Cannot find {section} in {name}; the embed stays read-only',
+	'notice.syncConflict': '{name} was changed elsewhere and conflicts with your unsaved edits here; a merge dialog will open when you save',
+	'notice.syncMerged': '{name} was changed elsewhere; the changes were merged into your edits here',
+	'notice.mergeCancelled': 'Not saved: {name} was changed externally. Your edits are still in the editor',
+	'notice.autoMerged': '{name} was changed externally; the changes were merged automatically',
+	'notice.restored': 'Restored a previous version of {name}',
+	'notice.restoreFailed': 'Failed to restore a previous version of {name}',
+	'notice.pruned': 'Removed {count} stale collapse states',
+
+	'history.empty': 'No previous versions',
+	'history.title': 'Version from {time}',
+	'history.description': 'Changes to {path} if this version is restored (- removed, + restored):',
+	'history.identical': 'Identical to the current content',
+	'history.close': 'Close',
+	'history.restore': 'Restore this version',
+
+	'unsaved.title': 'Unsaved changes',
+	'unsaved.description': 'These embedded notes have unsaved changes: {names}',
+	'unsaved.cancel': 'Cancel',
+	'unsaved.discard': 'Discard changes',
+	'unsaved.save': 'Save',
+
+	'list.separator': ', ',
+
+	'merge.title': 'Embedded note changed externally',
+	'merge.description': '{path} was modified while you were editing, and both sides changed the parts below. Choose a version for each part, or edit the merged result directly.',
+	'merge.cancel': 'Cancel',
+	'merge.save': 'Save merged result',
+	'merge.base': 'Base',
+	'merge.mine': 'Mine',
+	'merge.theirs': 'Theirs',
+	'merge.result': 'Merged result',
+	'merge.useMine': 'Use mine',
+	'merge.useTheirs': 'Use theirs',
+	'merge.keepBoth': 'Keep both',
+	'merge.deleteLines': 'Delete these lines',
+	'merge.deletedPlaceholder': '(these lines will be deleted)',
+
+	'settings.heading': 'Embedded Note Enhancer settings',
+	'settings.fontSize.name': 'Font size',
+	'settings.fontSize.desc': 'Font size of the title bar',
+	'settings.titleSource.name': 'Title source',
+	'settings.titleSource.desc': 'Text shown in the title bar. Falls back to the link text when unavailable; embed-title in frontmatter and title= in the alias take precedence',
+	'settings.titleSource.link': 'Link text',
+	'settings.titleSource.alias': 'Link alias',
+	'settings.titleSource.frontmatter': 'title in frontmatter',
+	'settings.titleSource.firstAlias': 'First alias (aliases)',
+	'settings.titleSource.heading': 'First H1 heading',
+	'settings.titleSource.basename': 'File name',
+	'settings.titleSource.path': 'Path with folders',
+	'settings.titleTemplate.name': 'Title template',
+	'settings.titleTemplate.desc': 'Leave empty to use the title source as is. Variables: {{title}} {{link}} {{alias}} {{basename}} {{path}} {{folder}} {{subpath}} {{heading}}',
+	'settings.showCollapseIcon.name': 'Show collapse icon',
+	'settings.showCollapseIcon.desc': 'Show the collapse/expand icon on the right of the title bar',
+	'settings.titleBarActions.name': 'Title bar actions',
+	'settings.titleBarActions.desc': 'Reorder the actions and choose whether each one shows as an icon button, goes into the "…" menu or is hidden. Moving rarely used actions into the menu keeps narrow panes and nested embeds readable',
+	'settings.titleBarActions.edit': 'Edit',
+	'settings.titleBarActions.history': 'History',
+	'settings.titleBarActions.jump': 'Open source file',
+	'settings.titleBarActions.bar': 'Button',
+	'settings.titleBarActions.menu': '"…" menu',
+	'settings.titleBarActions.hidden': 'Hidden',
+	'settings.moveUp': 'Move up',
+	'settings.moveDown': 'Move down',
+	'settings.showTagBadges.name': 'Show tag badges',
+	'settings.showTagBadges.desc': "Show the embedded note's tags on the title bar (up to 3)",
+	'settings.showModifiedBadge.name': 'Show modified-time badge',
+	'settings.showModifiedBadge.desc': 'Show when the embedded note was last modified',
+	'settings.showWordCountBadge.name': 'Show word-count badge',
+	'settings.showWordCountBadge.desc': "Show the word count of the embedded note's body",
+	'settings.showBacklinkBadge.name': 'Show backlink badge',
+	'settings.showBacklinkBadge.desc': 'Show how many other notes link to or embed the note',
+	'settings.jumpMode.name': 'Open in',
+	'settings.jumpMode.desc': 'Whether the open button opens the file in a new tab or in the current view',
+	'settings.jumpMode.newTab': 'New tab',
+	'settings.jumpMode.currentView': 'Current view',
+	'settings.manualSaveOnly.name': 'Manual save only',
+	'settings.manualSaveOnly.desc': 'Turn off auto-save and only save on Ctrl+S or when clicking Done',
+	'settings.editPreview.name': 'Show preview while editing',
+	'settings.editPreview.desc': 'Render a preview next to the inline editor to check math, Mermaid, callouts and more. It refreshes shortly after typing and never writes to the file',
+	'settings.previewLayout.name': 'Preview layout',
+	'settings.previewLayout.desc': 'Show the preview side by side with the editor, or switch with Edit/Preview tabs',
+	'settings.previewLayout.side': 'Side by side',
+	'settings.previewLayout.tabs': 'Tabs',
+	'settings.historyLimit.name': 'Versions to keep',
+	'settings.historyLimit.desc': 'Number of versions kept per file before inline saves. Set to 0 to disable.',
+	'settings.showProperties.name': 'Show properties while editing',
+	'settings.showProperties.desc': "Show the file's frontmatter properties (YAML) in the inline editor. When off, properties are hidden while editing and kept unchanged on save",
+	'settings.lockTag.name': 'Lock tag',
+	'settings.lockTag.desc': 'Notes with this tag (or its subtags) are read-only: the title bar shows a lock and inline editing and saving are refused. Notes with locked: true in frontmatter are read-only too. Leave empty to not lock by tag',
+	'settings.protectedFolders.name': 'Protected folders',
+	'settings.protectedFolders.desc': 'Notes in these folders are read-only. One folder per line; wildcards are supported, e.g. templates or reference/**',
+	'settings.prune.name': 'Prune stale collapse states',
+	'settings.prune.desc': 'Remove saved collapse states whose host note, embedded note or embed no longer exists ({count} stored)',
+	'settings.prune.button': 'Prune',
+	'settings.debugMode.name': 'Debug mode',
+	'settings.debugMode.desc': 'Log detailed debugging information to the console for troubleshooting',
+
+	'rules.heading': 'Embed rules',
+	'rules.description': "Set how embeds behave by the target note's folder, tag or size, the host note's folder, or nesting depth. Rules are checked in order and only the first rule whose conditions all match applies; declarations in frontmatter and link aliases take precedence. Changes apply to embeds rendered afterwards.",
+	'rules.name': 'Rule {index}',
+	'rules.namePlaceholder': 'Rule name',
+	'rules.enabled': 'Enabled',
+	'rules.delete': 'Delete',
+	'rules.any': 'Any',
+	'rules.min': 'Min',
+	'rules.max': 'Max',
+	'rules.targetFolder.name': 'Target folder',
+	'rules.targetFolder.desc': 'Folder of the embedded note; wildcards are supported, e.g. archive/**',
+	'rules.targetTag.name': 'Target tag',
+	'rules.targetTag.desc': 'Tag of the embedded note; subtags match too',
+	'rules.hostFolder.name': 'Host folder',
+	'rules.hostFolder.desc': 'Folder of the note containing the embed; wildcards are supported',
+	'rules.nestLevel.name': 'Nesting depth',
+	'rules.nestLevel.desc': '0 for top-level embeds, 1 for embeds inside embeds, and so on',
+	'rules.lines.name': 'Target size',
+	'rules.lines.desc': 'Range of line counts of the embedded note',
+	'rules.actions.name': 'Actions',
+	'rules.actions.desc': 'Applied when the rule matches',
+	'rules.action.collapsed': 'Start collapsed',
+	'rules.action.readOnly': 'Disable editing',
+	'rules.action.hideTitleBar': 'Hide title bar',
+	'rules.action.skip': 'Skip enhancement',
+	'rules.add': 'Add rule'
+};
+
+export default en;
@@ -0,0 +1,33 @@
+import { getLanguage } from 'obsidian';
+import en from './en';
+import zh from './zh';
+
+export type LocaleKey = keyof typeof en;
+export type Locale = Partial<Record<LocaleKey, string>>;
+
+/** 已支持的语言，键为 Obsidian 的语言代码。新增语言时在此登记 */
+const locales: Record<string, Locale> = { en, zh };
+
+let current: Locale | null = null;
+
+/**
+ * 按 Obsidian 的界面语言选取语言包。旧版本没有 getLanguage，
+ * 退回读取 localStorage 中的 language；都取不到或未收录时使用英文
+ */
+function getLocale(): Locale {
+	if (!current) {
+		const language = (typeof getLanguage === 'function' ? getLanguage() : window.localStorage.getItem('language')) || 'en';
+		current = locales[language] ?? locales[language.split('-')[0]] ?? en;
+	}
+	return current;
+}
+
+/**
+ * 取界面文本。当前语言缺少的键回退到英文，
+ * 文本中的 {name} 由 vars 中的同名值替换
+ */
+export function t(key: LocaleKey, vars?: Record<string, string | number>): string {
+	const text = getLocale()[key] ?? en[key];
+	if (!vars) return text;
+	return text.replace(/\{(\w+)\}/g, (match, name: string) => name in vars ? String(vars[name]) : match);
+}
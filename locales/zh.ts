@@ -0,0 +1,169 @@
+import type { Locale } from '.';
+
+/** 简体中文界面文本 */
+const zh: Locale = {
+	'command.collapseAll': '折叠当前笔记中的所有嵌入',
+	'command.expandAll': '展开当前笔记中的所有嵌入',
+	'command.toggleAtCursor': '折叠/展开光标处的嵌入',
+	'command.editAtCursor': '编辑/完成编辑光标处的嵌入',
+	'command.jumpAtCursor': '跳转到光标处嵌入的源文件',
+	'command.toggleEditPreview': '显示/隐藏嵌入编辑预览',
+	'command.finishAllEditing': '结束所有嵌入的编辑',
+
+	'titleBar.edit': '编辑',
+	'titleBar.done': '完成',
+	'titleBar.history': '历史',
+	'titleBar.jump': '跳转',
+	'titleBar.doneLabel': '完成编辑 {title}',
+	'titleBar.editLabel': '编辑 {title}',
+	'titleBar.historyLabel': '{title} 的历史版本',
+	'titleBar.jumpLabel': '跳转到 {title}',
+	'titleBar.more': '更多操作',
+	'titleBar.locked': '已锁定（只读）',
+	'titleBar.lockedEdit': '该笔记已锁定，无法编辑',
+	'titleBar.unsaved': '有未保存的修改',
+
+	'badge.tag': '标签 {tag}',
+	'badge.moreTags': '另有标签 {tags}',
+	'badge.modified': '修改于 {time}',
+	'badge.words': '{count} 字',
+	'badge.wordsLabel': '共 {count} 字',
+	'badge.backlinks': '{count} 篇笔记链接或嵌入了此笔记',
+
+	'preview.label': '预览',
+	'preview.editTab': '编辑',
+	'preview.previewTab': '预览',
+
+	'toast.saved': '✅ 已保存',
+	'toast.saveFailed': '❌ 保存失败',
+
+	'notice.lockedEdit': '{name} 已锁定，无法编辑',
+	'notice.lockedSave': '{name} 已锁定，修改未保存',
+	'notice.lockedRestore': '{name} 已锁定，无法恢复历史版本',
+	'notice.sectionNotFound': '在 {name} 中找不到 {section}，嵌入保持只读',
+	'notice.syncConflict': '{name} 已在其他位置修改，与此处未保存的内容有冲突，保存时将打开合并对话框',
+	'notice.syncMerged': '{name} 已在其他位置修改，已合并到此处的编辑中',
+	'notice.mergeCancelled': '未保存：{name} 已被外部修改，编辑内容仍保留在编辑器中',
+	'notice.autoMerged': '{name} 已被外部修改，已自动合并',
+	'notice.restored': '已恢复 {name} 的历史版本',
+	'notice.restoreFailed': '恢复 {name} 的历史版本失败',
+	'notice.pruned': '已清理 {count} 条失效的折叠状态',
+
+	'history.empty': '暂无历史版本',
+	'history.title': '历史版本：{time}',
+	'history.description': '{path} 恢复到此版本后的变化（- 将删除，+ 将恢复）：',
+	'history.identical': '与当前内容相同',
+	'history.close': '关闭',
+	'history.restore': '恢复此版本',
+
+	'unsaved.title': '有未保存的修改',
+	'unsaved.description': '以下嵌入笔记有未保存的修改：{names}',
+	'unsaved.cancel': '取消',
+	'unsaved.discard': '放弃修改',
+	'unsaved.save': '保存',
+
+	'list.separator': '、',
+
+	'merge.title': '嵌入笔记已被外部修改',
+	'merge.description': '{path} 在编辑期间被修改，以下部分双方都有改动。请为每一处选择保留的版本，或直接编辑合并结果。',
+	'merge.cancel': '取消',
+	'merge.save': '保存合并结果',
+	'merge.base': '基准',
+	'merge.mine': '我的',
+	'merge.theirs': '外部',
+	'merge.result': '合并结果',
+	'merge.useMine': '使用我的',
+	'merge.useTheirs': '使用外部',
+	'merge.keepBoth': '保留两者',
+	'merge.deleteLines': '删除这些行',
+	'merge.deletedPlaceholder': '（删除这些行）',
+
+	'settings.heading': 'Embedded Note Enhancer 设置',
+	'settings.fontSize.name': '字体大小',
+	'settings.fontSize.desc': '设置标题栏字体大小',
+	'settings.titleSource.name': '标题来源',
+	'settings.titleSource.desc': '标题栏显示的文本。取不到时回退为链接文本；frontmatter 的 embed-title 与别名中的 title= 优先',
+	'settings.titleSource.link': '链接文本',
+	'settings.titleSource.alias': '链接别名',
+	'settings.titleSource.frontmatter': 'frontmatter 中的 title',
+	'settings.titleSource.firstAlias': '第一个别名（aliases）',
+	'settings.titleSource.heading': '第一个一级标题',
+	'settings.titleSource.basename': '文件名',
+	'settings.titleSource.path': '路径（含文件夹）',
+	'settings.titleTemplate.name': '标题模板',
+	'settings.titleTemplate.desc': '留空则直接使用标题来源。可用变量：{{title}} {{link}} {{alias}} {{basename}} {{path}} {{folder}} {{subpath}} {{heading}}',
+	'settings.showCollapseIcon.name': '显示折叠图标',
+	'settings.showCollapseIcon.desc': '在标题栏右侧显示折叠/展开图标',
+	'settings.titleBarActions.name': '标题栏操作',
+	'settings.titleBarActions.desc': '调整各操作的顺序，选择显示为图标按钮、收进"…"菜单或隐藏。窄窗格或多层嵌套时可将不常用的操作收进菜单',
+	'settings.titleBarActions.edit': '编辑',
+	'settings.titleBarActions.history': '历史版本',
+	'settings.titleBarActions.jump': '跳转到源文件',
+	'settings.titleBarActions.bar': '按钮',
+	'settings.titleBarActions.menu': '"…"菜单',
+	'settings.titleBarActions.hidden': '隐藏',
+	'settings.moveUp': '上移',
+	'settings.moveDown': '下移',
+	'settings.showTagBadges.name': '显示标签徽章',
+	'settings.showTagBadges.desc': '在标题栏显示嵌入笔记的标签（最多 3 个）',
+	'settings.showModifiedBadge.name': '显示修改时间徽章',
+	'settings.showModifiedBadge.desc': '在标题栏显示嵌入笔记的最后修改日期',
+	'settings.showWordCountBadge.name': '显示字数徽章',
+	'settings.showWordCountBadge.desc': '在标题栏显示嵌入笔记正文的字数',
+	'settings.showBacklinkBadge.name': '显示反向链接徽章',
+	'settings.showBacklinkBadge.desc': '在标题栏显示有多少其他笔记链接或嵌入了该笔记',
+	'settings.jumpMode.name': '跳转方式',
+	'settings.jumpMode.desc': '选择跳转按钮的行为：在新标签页中打开文件，或在当前视图中打开文件',
+	'settings.jumpMode.newTab': '新标签页中打开',
+	'settings.jumpMode.currentView': '当前视图中打开',
+	'settings.manualSaveOnly.name': '仅手动保存',
+	'settings.manualSaveOnly.desc': '关闭自动保存，仅在 Ctrl+S 或点击完成时保存',
+	'settings.editPreview.name': '编辑时显示预览',
+	'settings.editPreview.desc': '原地编辑时在编辑器旁渲染预览，便于检查公式、Mermaid、标注块等。预览随输入延迟刷新，不会写入文件',
+	'settings.previewLayout.name': '预览布局',
+	'settings.previewLayout.desc': '预览与编辑器并排显示，或通过"编辑/预览"标签切换',
+	'settings.previewLayout.side': '并排',
+	'settings.previewLayout.tabs': '标签页',
+	'settings.historyLimit.name': '历史版本数量',
+	'settings.historyLimit.desc': '每个文件保留的原地编辑历史版本数量，设为 0 则不记录',
+	'settings.showProperties.name': '编辑时显示属性',
+	'settings.showProperties.desc': '在编辑模式下显示文件的 frontmatter 属性（YAML）。关闭后，编辑时将不显示属性，但保存时会自动保留原文件的属性',
+	'settings.lockTag.name': '锁定标签',
+	'settings.lockTag.desc': '带有该标签（含子标签）的笔记只读：标题栏显示锁标记，无法原地编辑或保存。frontmatter 中 locked: true 的笔记同样只读。留空则不按标签锁定',
+	'settings.protectedFolders.name': '受保护的文件夹',
+	'settings.protectedFolders.desc': '其中的笔记只读，每行一个文件夹，支持通配符，如 templates 或 reference/**',
+	'settings.prune.name': '清理失效的折叠状态',
+	'settings.prune.desc': '移除宿主笔记或嵌入笔记已不存在、或嵌入已被删除的折叠状态记录（当前共 {count} 条）',
+	'settings.prune.button': '清理',
+	'settings.debugMode.name': '调试模式',
+	'settings.debugMode.desc': '开启后会在控制台输出详细的调试信息，用于问题排查',
+
+	'rules.heading': '嵌入规则',
+	'rules.description': '按目标笔记的文件夹、标签、行数，宿主笔记的文件夹或嵌套深度，为嵌入设定默认表现。规则按顺序匹配，只有第一条满足全部条件的规则生效；笔记 frontmatter 与链接别名中的声明优先于规则。修改后对重新渲染的嵌入生效。',
+	'rules.name': '规则 {index}',
+	'rules.namePlaceholder': '规则名称',
+	'rules.enabled': '启用',
+	'rules.delete': '删除',
+	'rules.any': '不限',
+	'rules.min': '最小',
+	'rules.max': '最大',
+	'rules.targetFolder.name': '目标文件夹',
+	'rules.targetFolder.desc': '被嵌入笔记所在的文件夹，支持通配符，如 archive/**',
+	'rules.targetTag.name': '目标标签',
+	'rules.targetTag.desc': '被嵌入笔记带有的标签，同时匹配子标签',
+	'rules.hostFolder.name': '宿主文件夹',
+	'rules.hostFolder.desc': '包含该嵌入的笔记所在的文件夹，支持通配符',
+	'rules.nestLevel.name': '嵌套深度',
+	'rules.nestLevel.desc': '顶层嵌入为 0，嵌入中的嵌入为 1，依此类推',
+	'rules.lines.name': '目标行数',
+	'rules.lines.desc': '被嵌入笔记的行数范围',
+	'rules.actions.name': '动作',
+	'rules.actions.desc': '匹配时应用',
+	'rules.action.collapsed': '初始折叠',
+	'rules.action.readOnly': '禁止编辑',
+	'rules.action.hideTitleBar': '隐藏标题栏',
+	'rules.action.skip': '不增强',
+	'rules.add': '添加规则'
+};
+
+export default zh;
@@ -1,41 +1,204 @@
-import { Plugin, TFile, MarkdownView, App, PluginSettingTab, Setting, MarkdownRenderer } from 'obsidian';
+import { Plugin, CachedMetadata, Component, Editor, Keymap, TFile, TFolder, TAbstractFile, Vault, MarkdownView, MarkdownFileInfo, WorkspaceLeaf, OpenViewState, App, Menu, Modal, Notice, PluginSettingTab, Scope, Setting, MarkdownRenderer, MarkdownPostProcessorContext, editorInfoField, getAllTags, parseFrontMatterAliases, parseLinktext, resolveSubpath, setIcon } from 'obsidian';
+import { StateEffect } from '@codemirror/state';
+import { EditorView, ViewPlugin, ViewUpdate, keymap } from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { defaultHighlightStyle, syntaxHighlighting } from '@codemirror/language';
+import { markdown } from '@codemirror/lang-markdown';
+import { around } from 'monkey-around';
+import { t } from './locales';
 
 interface EmbeddedNoteEnhancerSettings {
 	fontSize: string;
 	showCollapseIcon: boolean;
-	showEditButton: boolean;
-	showJumpButton: boolean;
+	/** 标题栏操作的顺序与位置 */
+	titleBarActions: TitleBarActionSetting[];
 	jumpInNewTab: boolean;
 	autoSaveDelay: number;
 	manualSaveOnly: boolean;
 	livePreviewEnabled: boolean;
+	/** 标题栏文本的来源 */
+	titleSource: TitleSource;
+	/** 标题模板，如 {{title}} · {{folder}}；为空时直接使用标题来源 */
+	titleTemplate: string;
+	/** 编辑预览的布局：与编辑器并排，或在编辑/预览标签间切换 */
+	editPreviewLayout: 'side' | 'tabs';
 	collapseStates: Record<string, boolean>;
+	/** collapseStates 键的格式版本，用于升级时迁移旧键 */
+	collapseStateVersion: number;
 	debugMode: boolean;
 	showPropertiesInEdit: boolean;
+	/** 嵌入规则，按顺序匹配 */
+	rules: EmbedRule[];
+	/** 带有该标签（含子标签）的笔记锁定为只读 */
+	lockTag: string;
+	/** 受保护的文件夹或路径通配，其中的笔记锁定为只读 */
+	protectedFolders: string[];
+	/** 标题栏徽章：标签、修改时间、字数、反向链接数 */
+	showTagBadges: boolean;
+	showModifiedBadge: boolean;
+	showWordCountBadge: boolean;
+	showBacklinkBadge: boolean;
+	/** 每个文件保留的历史版本数量，0 表示不记录 */
+	historyLimit: number;
 }
 
+/**
+ * 嵌入规则：条件为空表示不限制，全部条件满足时应用动作。
+ * 规则按顺序匹配，只有第一条匹配的规则生效
+ */
+interface EmbedRule {
+	name: string;
+	enabled: boolean;
+	/** 目标笔记的文件夹或路径通配（如 archive/**） */
+	targetFolder: string;
+	/** 目标笔记的标签，同时匹配其子标签 */
+	targetTag: string;
+	/** 宿主笔记的文件夹或路径通配 */
+	hostFolder: string;
+	/** 嵌套深度范围（顶层为 0） */
+	minNestLevel: number | null;
+	maxNestLevel: number | null;
+	/** 目标笔记行数范围 */
+	minLines: number | null;
+	maxLines: number | null;
+	collapsed: boolean;
+	readOnly: boolean;
+	hideTitleBar: boolean;
+	skip: boolean;
+}
+
+/** 标题栏操作：原地编辑、历史版本、跳转到源文件 */
+type TitleBarAction = 'edit' | 'history' | 'jump';
+
+/** 标题栏操作的位置：显示为图标按钮、收进"…"菜单或隐藏 */
+interface TitleBarActionSetting {
+	action: TitleBarAction;
+	placement: 'bar' | 'menu' | 'hidden';
+}
+
+/** 标题栏操作的图标（Lucide 图标名） */
+const TITLE_BAR_ACTION_ICONS: Record<TitleBarAction, string> = {
+	edit: 'pencil',
+	history: 'history',
+	jump: 'arrow-up-right'
+};
+
+/** 旧版本中控制各按钮显示的开关，升级时迁移为 titleBarActions */
+const LEGACY_ACTION_TOGGLES: Record<TitleBarAction, string> = {
+	edit: 'showEditButton',
+	history: 'showHistoryButton',
+	jump: 'showJumpButton'
+};
+
+/** 标题来源：链接文本、链接别名、frontmatter title、第一个别名、第一个一级标题、文件名、带文件夹的路径 */
+type TitleSource = 'link' | 'alias' | 'frontmatter' | 'firstAlias' | 'heading' | 'basename' | 'path';
+
+/** 当前折叠状态键格式：宿主路径 + 链接目标（含子路径）+ 出现序号 */
+const COLLAPSE_STATE_VERSION = 2;
+
 const DEFAULT_SETTINGS: EmbeddedNoteEnhancerSettings = {
 	fontSize: '14px',
 	showCollapseIcon: true,
-	showEditButton: true,
-	showJumpButton: true,
+	titleBarActions: [
+		{ action: 'edit', placement: 'bar' },
+		{ action: 'history', placement: 'menu' },
+		{ action: 'jump', placement: 'bar' }
+	],
 	jumpInNewTab: true,
 	autoSaveDelay: 1000,
 	manualSaveOnly: false,
 	livePreviewEnabled: false,
+	titleSource: 'link',
+	titleTemplate: '',
+	editPreviewLayout: 'side',
 	collapseStates: {},
+	collapseStateVersion: COLLAPSE_STATE_VERSION,
 	debugMode: false,
-	showPropertiesInEdit: true
+	showPropertiesInEdit: true,
+	rules: [],
+	lockTag: 'locked',
+	protectedFolders: [],
+	showTagBadges: false,
+	showModifiedBadge: false,
+	showWordCountBadge: false,
+	showBacklinkBadge: false,
+	historyLimit: 20
 };
 
+/** 原地保存前的文件快照 */
+interface NoteRevision {
+	time: number;
+	content: string;
+}
+
+/** 单个嵌入块的呈现选项，由目标/宿主笔记的 frontmatter 与链接别名中的修饰符合并得出 */
+interface EmbedDisplayOptions {
+	/** 初始折叠状态；未声明时为 undefined，按展开处理 */
+	collapsed?: boolean;
+	/** 是否允许原地编辑 */
+	editable: boolean;
+	/** 是否显示标题栏 */
+	showTitleBar: boolean;
+	/** 自定义标题文本 */
+	title?: string;
+	/** 规则要求不增强该嵌入 */
+	skip?: boolean;
+}
+
+/** 原地编辑会话：记录编辑器对应的文件片段，保存时仅替换该片段 */
+interface InlineEditSession {
+	/** 嵌入链接的子路径（如 #标题、#^块ID），整篇嵌入时为空 */
+	subpath: string;
+	/** 片段在文件中的起始偏移 */
+	start: number;
+	/** 片段在文件中的结束偏移（不含） */
+	end: number;
+	/** 片段当前在文件中的原文，用于保存时校验位置 */
+	original: string;
+	/** 片段末尾不展示给编辑器的部分（空白、块标识 ^id），保存时原样补回 */
+	trailing: string;
+}
+
+/**
+ * 原地编辑器：优先使用 Obsidian 自身的 Markdown 编辑器，不可用时退回普通 CodeMirror 编辑器
+ */
+interface InlineEditor {
+	/** 编辑器根元素，带有 embedded-note-editor 类 */
+	containerEl: HTMLElement;
+	view: EditorView;
+	destroy(): void;
+}
+
+/**
+ * 原地编辑的基准：打开编辑器（或上次保存）时编辑器中的文本及文件状态，用于发现外部修改
+ */
+interface EditBaseline {
+	/** 编辑器载入时的文本，三方合并的共同祖先 */
+	base: string;
+	/** 当时整个文件内容的哈希 */
+	hash: string;
+	mtime: number;
+}
+
+/**
+ * 三方合并的分块：双方一致或仅一方修改的部分直接得出结果，双方都改动的部分为冲突
+ */
+type MergeChunk =
+	| { type: 'resolved'; lines: string[] }
+	| { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+/**
+ * 插件添加到 DOM 的事件监听器记录
+ */
+interface TrackedListener {
+	type: string;
+	handler: EventListenerOrEventListenerObject;
+	options?: boolean | AddEventListenerOptions;
+}
+
 export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	settings!: EmbeddedNoteEnhancerSettings;
 	public collapseStates: Map<string, boolean> = new Map();
-	public embeddedBlocks: Map<string, HTMLElement> = new Map();
-	private mutationObserver?: MutationObserver;
-	private periodicCheckInterval?: NodeJS.Timeout;
-	private bootstrapSweepInterval?: NodeJS.Timeout;
-	private lastEmbeddedCount: number = 0;
 	// 调试日志总开关（默认关闭，避免重复输出）
 	private debugVerbose: boolean = false;
 	
@@ -57,24 +220,52 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	public lastLogTimes: Map<string, number> = new Map();
 	// 编辑中的文件集合，用于防止编辑时触发重新渲染
 	private editingFiles: Set<string> = new Set();
-	// 追踪本插件添加到 DOM 的事件监听器，便于卸载时完全移除
-	private trackedEvents: Array<{ el: EventTarget; type: string; handler: EventListenerOrEventListenerObject; options?: boolean | AddEventListenerOptions }>=[];
-	// 缓存图片嵌入检测结果，避免重复检测
-	private imageEmbedCache: Map<HTMLElement, boolean> = new Map();
-	// 防止短时间内重复处理同一个容器
-	private processingContainers: Set<HTMLElement> = new Set();
+	// 追踪本插件添加到 DOM 的事件监听器，便于卸载时完全移除；
+	// 只弱引用目标元素，元素被回收后其记录随之清除
+	private trackedEvents: WeakMap<EventTarget, TrackedListener[]> = new WeakMap();
+	private trackedTargets: Set<WeakRef<EventTarget>> = new Set();
+	private trackedTargetRegistry = new FinalizationRegistry<WeakRef<EventTarget>>((ref) => this.trackedTargets.delete(ref));
+	// 缓存图片嵌入检测结果，避免重复检测（弱引用，不保留已移除的 DOM）
+	private imageEmbedCache: WeakMap<HTMLElement, boolean> = new WeakMap();
 	// 缓存文件类型检测结果，避免重复的文件解析
 	private fileTypeCache: Map<string, boolean> = new Map();
-	// 防止短时间内重复处理，提升性能
-	private processingThrottle: Map<string, number> = new Map();
-	// 缓存已处理的文件路径，避免重复处理相同的文件结构
-	private processedFiles: Set<string> = new Set();
-	// 缓存文件的嵌入结构，避免重复计算
-	private fileEmbedStructure: Map<string, { timestamp: number; embedCount: number; hasImages: boolean }> = new Map();
-	// 追踪正在创建的文件，避免过早处理导致卡死
-	private filesBeingCreated: Set<string> = new Set();
-	// 防抖定时器，避免在用户输入过程中频繁处理
-	private debounceTimer: NodeJS.Timeout | null = null;
+	// 等待内容挂载的嵌入块及其观察器，内容挂载后处理一次并断开
+	private pendingEmbeds: WeakMap<HTMLElement, MutationObserver> = new WeakMap();
+	// 目标笔记尚不存在的嵌入块（按链接文本），笔记创建或元数据解析完成后重试
+	private embedsAwaitingTarget: Map<string, Set<WeakRef<HTMLElement>>> = new Map();
+	// 插件已卸载，尚未触发的观察回调直接断开
+	private isUnloaded: boolean = false;
+	// 内容区域 id 计数器，用于标题栏的 aria-controls
+	private contentIdCounter: number = 0;
+	// 片段编辑会话（按嵌入块），用于 ![[笔记#标题]] 仅编辑对应章节
+	private editSessions: WeakMap<HTMLElement, InlineEditSession> = new WeakMap();
+	// 原地编辑器（按嵌入块）
+	private inlineEditors: WeakMap<HTMLElement, InlineEditor> = new WeakMap();
+	// 原地编辑的基准（按嵌入块），保存前据此判断文件是否被外部修改
+	private editBaselines: WeakMap<HTMLElement, EditBaseline> = new WeakMap();
+	// 正在显示合并对话框的嵌入块，期间的自动保存直接跳过
+	private mergingBlocks: WeakSet<HTMLElement> = new WeakSet();
+	// 尚未触发的自动保存（按嵌入块）
+	private autoSaveTimers: WeakMap<HTMLElement, number> = new WeakMap();
+	// 用户选择放弃修改的编辑器，之后不再写入
+	private discardedEditors: WeakSet<InlineEditor> = new WeakSet();
+	// 编辑预览的渲染防抖计时器与渲染组件（按嵌入块）
+	private previewTimers: WeakMap<HTMLElement, number> = new WeakMap();
+	private previewComponents: WeakMap<HTMLElement, Component> = new WeakMap();
+	// 编辑预览最近一次渲染的序号（按嵌入块），较早发起的渲染完成后不再覆盖
+	private previewRenderSeq: WeakMap<HTMLElement, number> = new WeakMap();
+	// 同步刷新只读嵌入时的渲染组件（按嵌入块）
+	private refreshComponents: WeakMap<HTMLElement, Component> = new WeakMap();
+	// 正在确认未保存修改、关闭被暂缓的标签页
+	private confirmingLeaves: WeakSet<WorkspaceLeaf> = new WeakSet();
+	// 已提示过同步冲突的编辑块，冲突解决前不再重复提示
+	private syncConflictBlocks: WeakSet<HTMLElement> = new WeakSet();
+	// 刚由原地编辑写入的文件，元数据更新后刷新其他只读嵌入
+	private filesToSync: Set<string> = new Set();
+	// 各笔记被其他笔记链接或嵌入的次数，元数据解析完成后重建
+	private backlinkCounts: Map<string, number> | null = null;
+	// 各文件历史记录的写入队列，读取—追加—写回依次执行，避免并发保存互相覆盖
+	private revisionQueues: Map<string, Promise<void>> = new Map();
 
 	/** 为元素添加监听器并记录，便于后续移除 */
 	private addTrackedEventListener(
@@ -84,47 +275,48 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		options?: boolean | AddEventListenerOptions
 	) {
 		try {
-			// @ts-ignore - EventTarget in DOM supports addEventListener
 			el.addEventListener(type, handler, options);
-			this.trackedEvents.push({ el, type, handler, options });
+			let records = this.trackedEvents.get(el);
+			if (!records) {
+				records = [];
+				this.trackedEvents.set(el, records);
+				const ref = new WeakRef(el);
+				this.trackedTargets.add(ref);
+				this.trackedTargetRegistry.register(el, ref, ref);
+			}
+			records.push({ type, handler, options });
 		} catch {}
 	}
 
+	/** 移除单个目标上由本插件添加的事件监听器 */
+	private removeTrackedListenersOf(ref: WeakRef<EventTarget>) {
+		const target = ref.deref();
+		this.trackedTargets.delete(ref);
+		this.trackedTargetRegistry.unregister(ref);
+		if (!target) return;
+		(this.trackedEvents.get(target) || []).forEach((rec) => {
+			try {
+				target.removeEventListener(rec.type, rec.handler, rec.options);
+			} catch {}
+		});
+		this.trackedEvents.delete(target);
+	}
+
 	/** 移除某个根节点下所有由本插件添加的事件监听器 */
 	private removeTrackedEventListenersForRoot(root: HTMLElement) {
-		const remaining: typeof this.trackedEvents = [];
-		this.trackedEvents.forEach((rec) => {
-			const target = rec.el;
-			const isNode = target && typeof target === 'object' && 'addEventListener' in target;
-			let shouldRemove = false;
-			if (isNode) {
-				if (target === root) {
-					shouldRemove = true;
-				} else if (target instanceof Node && root.contains(target)) {
-					shouldRemove = true;
-				}
-			}
-			if (shouldRemove) {
-				try {
-					// @ts-ignore
-					target.removeEventListener(rec.type, rec.handler, rec.options);
-				} catch {}
-			} else {
-				remaining.push(rec);
+		this.trackedTargets.forEach((ref) => {
+			const target = ref.deref();
+			if (!target) {
+				this.trackedTargets.delete(ref);
+			} else if (target === root || (target instanceof Node && root.contains(target))) {
+				this.removeTrackedListenersOf(ref);
 			}
 		});
-		this.trackedEvents = remaining;
 	}
 
 	/** 移除所有由本插件添加的事件监听器 */
 	private removeAllTrackedEventListeners() {
-		this.trackedEvents.forEach((rec) => {
-			try {
-				// @ts-ignore
-				rec.el.removeEventListener(rec.type, rec.handler, rec.options);
-			} catch {}
-		});
-		this.trackedEvents = [];
+		this.trackedTargets.forEach((ref) => this.removeTrackedListenersOf(ref));
 	}
 
 	private logOnce(key: string, message: string, ...args: unknown[]) {
@@ -162,14 +354,168 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 
 		// 恢复保存的折叠状态
 		this.restoreCollapseStates();
+		// 旧版折叠状态键依赖 DOM 位置，布局就绪（元数据可用）后迁移为稳定ID
+		if (this.settings.collapseStateVersion < COLLAPSE_STATE_VERSION) {
+			this.app.workspace.onLayoutReady(() => this.migrateLegacyCollapseStates());
+		}
 
 		// 添加设置标签页
 			this.addSettingTab(new EmbeddedNoteEnhancerSettingTab(this.app, this));
 
+		// 注册命令，便于绑定快捷键
+		this.registerCommands();
+
 		// 初始化插件功能
 			this.initializePlugin();
 		}
 
+	/**
+	 * 注册命令面板命令
+	 */
+	private registerCommands() {
+		this.addCommand({
+			id: 'collapse-all-embeds',
+			name: t('command.collapseAll'),
+			checkCallback: (checking) => this.runOnCurrentNoteEmbeds(checking, (blocks) => {
+				this.setEmbedsCollapsed(blocks, true);
+			})
+		});
+
+		this.addCommand({
+			id: 'expand-all-embeds',
+			name: t('command.expandAll'),
+			checkCallback: (checking) => this.runOnCurrentNoteEmbeds(checking, (blocks) => {
+				this.setEmbedsCollapsed(blocks, false);
+			})
+		});
+
+		this.addCommand({
+			id: 'toggle-embed-at-cursor',
+			name: t('command.toggleAtCursor'),
+			checkCallback: (checking) => this.runOnEmbedAtCursor(checking, (block) => {
+				if (block.getAttribute('data-editing') === 'true') return;
+				const blockId = block.getAttribute('data-block-id');
+				if (blockId) void this.toggleBlockCollapse(blockId);
+			})
+		});
+
+		this.addCommand({
+			id: 'edit-embed-at-cursor',
+			name: t('command.editAtCursor'),
+			checkCallback: (checking) => this.runOnEmbedAtCursor(checking, (block) => {
+				if (block.getAttribute('data-editing') === 'true') {
+					void this.finishInlineEditing(block);
+				} else {
+					void this.startInlineEditing(block);
+				}
+			})
+		});
+
+		this.addCommand({
+			id: 'jump-to-embed-source',
+			name: t('command.jumpAtCursor'),
+			checkCallback: (checking) => this.runOnEmbedAtCursor(checking, (block) => {
+				const fileName = block.getAttribute('data-file-link');
+				if (fileName) this.jumpToFile(fileName, this.getBlockSourcePath(block));
+			})
+		});
+
+		this.addCommand({
+			id: 'toggle-edit-preview',
+			name: t('command.toggleEditPreview'),
+			callback: async () => {
+				this.settings.livePreviewEnabled = !this.settings.livePreviewEnabled;
+				await this.saveSettings();
+				this.applyLivePreviewState();
+			}
+		});
+
+		this.addCommand({
+			id: 'finish-editing-all-embeds',
+			name: t('command.finishAllEditing'),
+			checkCallback: (checking) => {
+				const editing = Array.from(document.querySelectorAll('.markdown-embed[data-editing="true"], .internal-embed[data-editing="true"]')) as HTMLElement[];
+				if (editing.length === 0) return false;
+				if (!checking) editing.forEach((block) => void this.finishInlineEditing(block));
+				return true;
+			}
+		});
+	}
+
+	/**
+	 * 命令辅助：对当前 Markdown 视图中所有已增强的嵌入块执行操作
+	 */
+	private runOnCurrentNoteEmbeds(checking: boolean, action: (blocks: HTMLElement[]) => void): boolean {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) return false;
+		const blocks = Array.from(view.contentEl.querySelectorAll('.markdown-embed[data-embedded-note-enhanced], .internal-embed[data-embedded-note-enhanced]')) as HTMLElement[];
+		if (blocks.length === 0) return false;
+		if (!checking) action(blocks);
+		return true;
+	}
+
+	/**
+	 * 命令辅助：对光标处的嵌入块执行操作
+	 */
+	private runOnEmbedAtCursor(checking: boolean, action: (block: HTMLElement) => void): boolean {
+		const block = this.getEmbedAtCursor();
+		if (!block) return false;
+		if (!checking) action(block);
+		return true;
+	}
+
+	/**
+	 * 查找光标处的嵌入块：焦点所在的嵌入块优先；
+	 * 实时预览中取与光标所在行最近的嵌入，阅读视图中取第一个可见的嵌入
+	 */
+	private getEmbedAtCursor(): HTMLElement | null {
+		const enhancedSelector = '.markdown-embed[data-embedded-note-enhanced], .internal-embed[data-embedded-note-enhanced]';
+		const focused = (document.activeElement as HTMLElement | null)?.closest(enhancedSelector) as HTMLElement | null;
+		if (focused) return focused;
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) return null;
+		const blocks = Array.from(view.contentEl.querySelectorAll(enhancedSelector)) as HTMLElement[];
+		if (blocks.length === 0) return null;
+
+		if (view.getMode() === 'source' && view.file) {
+			const cursorLine = view.editor.getCursor().line;
+			// MarkdownView.editor.cm 为 CodeMirror 6 的 EditorView
+			const cm = (view.editor as Editor & { cm?: EditorView }).cm;
+			let nearest: HTMLElement | null = null;
+			let nearestDistance = Infinity;
+			blocks.forEach((block) => {
+				const offset = this.getEditorOffset(block, view.file!.path);
+				if (offset === null || !cm) return;
+				const distance = Math.abs(cm.state.doc.lineAt(offset).number - 1 - cursorLine);
+				if (distance < nearestDistance) {
+					nearest = block;
+					nearestDistance = distance;
+				}
+			});
+			if (nearest) return nearest;
+		}
+
+		const viewTop = view.contentEl.getBoundingClientRect().top;
+		return blocks.find((block) => block.getBoundingClientRect().bottom > viewTop) || null;
+	}
+
+	/**
+	 * 批量设置嵌入块的折叠状态（编辑中的块保持不变），复用 toggleBlockCollapse 以保存状态
+	 */
+	private setEmbedsCollapsed(blocks: HTMLElement[], collapsed: boolean) {
+		const handled = new Set<string>();
+		blocks.forEach((block) => {
+			const blockId = block.getAttribute('data-block-id');
+			if (!blockId || handled.has(blockId)) return;
+			handled.add(blockId);
+			if (block.getAttribute('data-editing') === 'true') return;
+			if (block.classList.contains('embedded-note-collapsed') !== collapsed) {
+				void this.toggleBlockCollapse(blockId);
+			}
+		});
+	}
+
 	/**
 	 * 恢复保存的折叠状态
 	 */
@@ -181,6 +527,176 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		this.log('Restored collapse states:', this.settings.collapseStates);
 	}
 
+	/**
+	 * 将旧版折叠状态键（宿主哈希-文件名哈希-层级-DOM位置）迁移为稳定ID。
+	 * 顶层嵌入按 DOM 位置顺序对应到宿主中同名嵌入的出现顺序；嵌套嵌入的旧键无法可靠对应，直接丢弃
+	 */
+	private migrateLegacyCollapseStates() {
+		const legacyPattern = /^embedded-([a-z0-9]+)-([a-z0-9]+)-level0-pos(\d+)$/;
+		const hostsByHash = new Map<string, TFile>();
+		this.app.vault.getMarkdownFiles().forEach((file) => hostsByHash.set(this.simpleHash(file.path), file));
+
+		// 按 宿主+文件名 分组，组内按旧的 DOM 位置排序
+		const groups = new Map<string, Array<{ pos: number; collapsed: boolean }>>();
+		const migrated: Record<string, boolean> = {};
+		let dropped = 0;
+		Object.entries(this.settings.collapseStates).forEach(([key, collapsed]) => {
+			if (!key.startsWith('embedded-')) {
+				migrated[key] = collapsed;
+				return;
+			}
+			const match = key.match(legacyPattern);
+			if (!match) {
+				dropped++;
+				return;
+			}
+			const groupKey = `${match[1]}-${match[2]}`;
+			const entries = groups.get(groupKey) || [];
+			entries.push({ pos: parseInt(match[3]), collapsed });
+			groups.set(groupKey, entries);
+		});
+
+		groups.forEach((entries, groupKey) => {
+			const [pathHash, nameHash] = groupKey.split('-');
+			const host = hostsByHash.get(pathHash);
+			if (!host) {
+				dropped += entries.length;
+				return;
+			}
+			const embeds = this.app.metadataCache.getFileCache(host)?.embeds || [];
+			entries.sort((a, b) => a.pos - b.pos);
+			const occurrences = new Map<string, number>();
+			let index = 0;
+			embeds.forEach((embed) => {
+				const target = this.getEmbedTarget(embed.link, host.path);
+				const targetKey = target.path + target.subpath;
+				const occurrence = occurrences.get(targetKey) || 0;
+				occurrences.set(targetKey, occurrence + 1);
+				if (this.simpleHash(this.extractFileName(embed.link) || '') !== nameHash) return;
+				if (index < entries.length) {
+					migrated[this.buildBlockId(host.path, target.path, target.subpath, occurrence)] = entries[index].collapsed;
+					index++;
+				}
+			});
+			dropped += entries.length - index;
+		});
+
+		this.settings.collapseStates = migrated;
+		this.settings.collapseStateVersion = COLLAPSE_STATE_VERSION;
+		this.collapseStates = new Map(Object.entries(migrated));
+		this.saveSettings();
+		this.log(`Migrated collapse states, dropped ${dropped} unmappable entries`);
+		this.applySavedCollapseStates();
+	}
+
+	/**
+	 * 解析稳定ID格式的折叠状态键，非该格式时返回 null
+	 */
+	private parseCollapseStateKey(key: string): { hostHash: string; targetHash: string; rest: string } | null {
+		const match = key.match(/^embed-([a-z0-9]+)-([a-z0-9]+)((?:-[a-z0-9]+)?-\d+)$/);
+		return match ? { hostHash: match[1], targetHash: match[2], rest: match[3] } : null;
+	}
+
+	/**
+	 * 按给定规则改写（返回新键）或删除（返回 null）折叠状态，有变化时保存设置
+	 */
+	private rewriteCollapseStates(transform: (key: string) => string | null): number {
+		const next = new Map<string, boolean>();
+		let changed = 0;
+		this.collapseStates.forEach((collapsed, key) => {
+			const newKey = transform(key);
+			if (newKey !== key) changed++;
+			if (newKey !== null) next.set(newKey, collapsed);
+		});
+		if (changed === 0) return 0;
+		this.collapseStates = next;
+		this.settings.collapseStates = Object.fromEntries(next);
+		this.saveSettings();
+		// 同步页面上已增强块的ID，避免后续折叠写入旧键
+		document.querySelectorAll('[data-block-id]').forEach((el) => {
+			const oldId = el.getAttribute('data-block-id') || '';
+			const newId = transform(oldId);
+			if (newId && newId !== oldId) el.setAttribute('data-block-id', newId);
+		});
+		return changed;
+	}
+
+	/**
+	 * 文件或文件夹重命名后，改写以其为宿主或目标的折叠状态键
+	 */
+	private renameCollapseStates(file: TAbstractFile, oldPath: string) {
+		const renamed = new Map<string, string>();
+		if (file instanceof TFolder) {
+			Vault.recurseChildren(file, (child) => {
+				if (child instanceof TFile) {
+					const childOldPath = oldPath + child.path.slice(file.path.length);
+					renamed.set(this.simpleHash(childOldPath), this.simpleHash(child.path));
+				}
+			});
+		} else {
+			renamed.set(this.simpleHash(oldPath), this.simpleHash(file.path));
+		}
+		const changed = this.rewriteCollapseStates((key) => {
+			const parsed = this.parseCollapseStateKey(key);
+			if (!parsed) return key;
+			const hostHash = renamed.get(parsed.hostHash) || parsed.hostHash;
+			const targetHash = renamed.get(parsed.targetHash) || parsed.targetHash;
+			return `embed-${hostHash}-${targetHash}${parsed.rest}`;
+		});
+		if (changed > 0) this.log(`Rewrote ${changed} collapse states after rename: ${oldPath} -> ${file.path}`);
+	}
+
+	/**
+	 * 文件或文件夹删除后，移除以其（或文件夹下任一文件）为宿主或目标的折叠状态。
+	 * 键中只有路径哈希，文件夹下的路径取自其剩余子项与链接缓存中位于该文件夹下的路径
+	 */
+	private deleteCollapseStates(file: TAbstractFile) {
+		const deleted = new Set<string>();
+		if (file instanceof TFile) {
+			deleted.add(this.simpleHash(file.path));
+		} else if (file instanceof TFolder) {
+			const prefix = file.path + '/';
+			const paths = new Set<string>();
+			Vault.recurseChildren(file, (child) => {
+				if (child instanceof TFile) paths.add(child.path);
+			});
+			Object.entries(this.app.metadataCache.resolvedLinks).forEach(([source, links]) => {
+				paths.add(source);
+				Object.keys(links).forEach((target) => paths.add(target));
+			});
+			paths.forEach((path) => {
+				if (path.startsWith(prefix)) deleted.add(this.simpleHash(path));
+			});
+		}
+		if (deleted.size === 0) return;
+		const removed = this.rewriteCollapseStates((key) => {
+			const parsed = this.parseCollapseStateKey(key);
+			if (!parsed) return key;
+			return deleted.has(parsed.hostHash) || deleted.has(parsed.targetHash) ? null : key;
+		});
+		if (removed > 0) this.log(`Removed ${removed} collapse states for deleted ${file instanceof TFolder ? 'folder' : 'file'}: ${file.path}`);
+	}
+
+	/**
+	 * 清理失效的折叠状态：仅保留与 vault 中现存嵌入对应的键，返回移除的条数
+	 */
+	public pruneStaleCollapseStates(): number {
+		const liveIds = new Set<string>();
+		this.app.vault.getMarkdownFiles().forEach((host) => {
+			const occurrences = new Map<string, number>();
+			(this.app.metadataCache.getFileCache(host)?.embeds || []).forEach((embed) => {
+				const target = this.getEmbedTarget(embed.link, host.path);
+				const targetKey = target.path + target.subpath;
+				const occurrence = occurrences.get(targetKey) || 0;
+				occurrences.set(targetKey, occurrence + 1);
+				liveIds.add(this.buildBlockId(host.path, target.path, target.subpath, occurrence));
+			});
+		});
+		const removed = this.rewriteCollapseStates((key) => liveIds.has(key) ? key : null);
+		this.log(`Pruned ${removed} stale collapse states`);
+		return removed;
+	}
+
 	/**
 	 * 保存当前的折叠状态到设置中
 	 */
@@ -218,34 +734,20 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		this.addStyles();
 
 		// 在 Markdown 渲染后处理嵌入块（更可靠）
-		this.registerMarkdownPostProcessor((element) => {
-			this.processEmbeddedBlocksIn(element as HTMLElement);
+		this.registerMarkdownPostProcessor((element, ctx) => {
+			this.processEmbeddedBlocksIn(element as HTMLElement, ctx);
 		});
 
-		// 监听工作区变化
-		this.registerEvent(
-			this.app.workspace.on('layout-change', () => {
-				this.processEmbeddedBlocks();
-			})
-		);
+		// 实时预览：由编辑器扩展在嵌入小部件渲染完成后直接添加标题栏
+		this.registerEditorExtension(createLivePreviewExtension(this));
+
+		// 关闭标签页或在其中打开其他文件前，确认未保存的原地编辑
+		this.registerLeafGuards();
 
-		// 冷启动加强：监听文件打开后再处理一次，确保嵌套内容已渲染
+		// 打开文件时预加载文件类型缓存，提升性能
 		this.registerEvent(
 			this.app.workspace.on('file-open', () => {
-				// 预加载文件类型缓存，提升性能
 				this.preloadFileTypeCache();
-				
-				// 简化调用，只保留必要的处理
-				setTimeout(() => { this.processEmbeddedBlocks(); }, 200);
-				setTimeout(() => { this.applySavedCollapseStates(); }, 800);
-				// 文件打开后也启动自愈扫描，确保样式统一
-				this.startBootstrapSweep();
-			})
-		);
-
-		this.registerEvent(
-			this.app.workspace.on('active-leaf-change', () => {
-				this.processEmbeddedBlocks();
 			})
 		);
 
@@ -258,77 +760,60 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			})
 		);
 
-		// 监听文件创建
+		// 新笔记创建后，重试此前因目标不存在而未增强的嵌入
 		this.registerEvent(
 			this.app.vault.on('create', (file) => {
 				if (file instanceof TFile) {
-					// 文件创建完成，从创建列表中移除
-					this.filesBeingCreated.delete(file.path);
-					this.filesBeingCreated.delete(file.basename);
-					// 延迟处理，确保文件完全创建，但增加延迟时间避免与MutationObserver冲突
-					setTimeout(() => {
-						this.processEmbeddedBlocks();
-					}, 1000); // 从500ms增加到1000ms
+					this.retryAwaitingEmbeds();
 				}
 			})
 		);
 
 		// 监听文件重命名事件（作为保存的替代）
 		this.registerEvent(
-			this.app.vault.on('rename', (file) => {
+			this.app.vault.on('rename', (file, oldPath) => {
+				// 折叠状态键包含宿主/目标路径哈希，重命名后改写为新路径
+				this.renameCollapseStates(file, oldPath);
 				if (file instanceof TFile) {
+					void this.moveRevisions(oldPath, file.path);
 					this.handleFileSave(file);
 				}
 			})
 		);
 
-		// 冷启动加强：当 metadata 解析完成时，再统一处理一次嵌套
+		// 监听文件删除，移除以该文件为宿主或目标的折叠状态
 		this.registerEvent(
-			(this.app.metadataCache as any).on?.('resolved', () => {
-				// 简化调用，避免重复处理
-				setTimeout(() => { this.processEmbeddedBlocks(); }, 300);
-				// metadata解析完成后也启动自愈扫描，确保样式统一
-				this.startBootstrapSweep();
+			this.app.vault.on('delete', (file) => {
+				this.deleteCollapseStates(file);
+				if (file instanceof TFile) void this.deleteRevisions(file.path);
 			})
 		);
 
-		// 设置 MutationObserver 来监听DOM变化，处理动态添加的嵌套嵌入
-		this.setupMutationObserver();
+		// 文件内容变化且元数据已更新后，同步同一笔记的其他嵌入
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file, data) => {
+				void this.syncEmbedsOf(file, data);
+			})
+		);
 
-		// 监听工作区渲染完成事件
+		// 冷启动时元数据可能晚于渲染就绪，解析完成后重试尚未解析到目标的嵌入
 		this.registerEvent(
-			this.app.workspace.on('resize', () => {
-				setTimeout(() => {
-					this.processEmbeddedBlocks();
-				}, 100);
+			this.app.metadataCache.on('resolved', () => {
+				this.retryAwaitingEmbeds();
+				// 其他笔记的链接变化会影响反向链接数
+				this.backlinkCounts = null;
+				if (this.settings.showBacklinkBadge) {
+					this.getEnhancedBlocks().forEach((block) => void this.updateBadges(block));
+				}
 			})
 		);
 
-		// 初始处理
-		this.log('Starting initial processing...');
-		this.processEmbeddedBlocks();
-		
-		// 冷启动自愈扫描：在短时间内高频尝试，直到嵌入数量稳定
-		this.startBootstrapSweep();
-		// 在布局就绪后再触发一次，确保冷启动初次渲染后的嵌套也被处理
-		this.app.workspace.onLayoutReady?.(() => {
-			setTimeout(() => {
-				this.processEmbeddedBlocks();
-			}, 100);
-		});
-		// 冷启动兜底：简化调用，只保留必要的处理
-		setTimeout(() => {
-			this.processEmbeddedBlocks();
-		}, 500);
-		setTimeout(() => {
+		// 插件启用前已渲染的视图不会再经过后处理器，布局就绪后对其处理一次
+		this.app.workspace.onLayoutReady(() => {
+			this.log('Starting initial processing...');
 			this.processEmbeddedBlocks();
-		}, 1500);
-		
-		// 移除这里的模拟调用，改为在自愈扫描完成后执行
-		
-		// 设置定期检查，确保嵌套嵌入在文件修改后能够被正确处理
-		this.setupPeriodicCheck();
-		
+		});
+
 		this.log('Plugin loaded successfully');
 		
 		// 添加全局方法用于手动触发处理（调试用）
@@ -336,28 +821,6 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		
 	}
 
-	/** 冷启动短期高频扫描，覆盖二层嵌套渲染滞后 */
-	private startBootstrapSweep() {
-		if (this.bootstrapSweepInterval) clearInterval(this.bootstrapSweepInterval);
-		const deadline = Date.now() + 3000; // 减少到最多自愈3秒
-		this.lastEmbeddedCount = 0;
-		this.bootstrapSweepInterval = setInterval(() => {
-			// 扫一轮
-			this.processEmbeddedBlocks();
-			// 判断是否稳定：已处理的块数量在两次之间未增长
-			const current = this.embeddedBlocks.size;
-			if (current === this.lastEmbeddedCount || Date.now() > deadline) {
-				clearInterval(this.bootstrapSweepInterval!);
-				this.bootstrapSweepInterval = undefined;
-				// 自愈扫描完成
-				this.log('Bootstrap sweep completed');
-				return;
-			}
-			this.lastEmbeddedCount = current;
-		}, 500); // 增加间隔到500ms，减少频率
-	}
-
-
 	/**
 	 * 冷启动/重渲染后统一对块与内容应用与"编辑保存后"一致的样式
 	 */
@@ -383,7 +846,10 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 
 	onunload() {
 		this.log('Plugin unloading...');
-		
+		this.isUnloaded = true;
+
+		// 卸载无法取消也无法等待确认：拆除界面前直接发起保存
+		this.flushPendingEdits(this.getDirtyBlocks(document.body));
 		
 		// 清理全局引用
 							try { delete (window as any).embeddedNoteEnhancerPlugin; } catch {}
@@ -397,44 +863,15 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		// 移除样式
 		this.removeStyles();
 		
-		// 清理 MutationObserver
-		if (this.mutationObserver) {
-			this.mutationObserver.disconnect();
-			this.mutationObserver = undefined;
-		}
-		
-		// 清理定期检查
-		if (this.periodicCheckInterval) {
-			clearInterval(this.periodicCheckInterval);
-			this.periodicCheckInterval = undefined;
-		}
-		
-		// 清理自愈扫描
-		if (this.bootstrapSweepInterval) {
-			clearInterval(this.bootstrapSweepInterval);
-			this.bootstrapSweepInterval = undefined;
-		}
-		
-		// 清理防抖定时器
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-			this.debounceTimer = null;
-		}
-		
 		// 保存当前的折叠状态到设置中
 		this.saveCurrentCollapseStates();
 		
 		// 清理内存引用
-		this.embeddedBlocks.clear();
 		this.collapseStates.clear();
 		this.lastLogTimes.clear();
-		this.imageEmbedCache.clear();
-		this.processingContainers.clear();
 		this.fileTypeCache.clear();
-		this.processingThrottle.clear();
-		this.processedFiles.clear();
-		this.fileEmbedStructure.clear();
-		
+		this.embedsAwaitingTarget.clear();
+
 		// 强制请求 Obsidian 重新渲染当前活动视图到原生状态
 		try {
 			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -451,134 +888,40 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
-
-	async saveSettings() {
-		await this.saveData(this.settings);
+		const data: (Partial<EmbeddedNoteEnhancerSettings> & Record<string, unknown>) | null = await this.loadData();
+		const titleBarActions = this.normalizeTitleBarActions(data);
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// 已有数据但没有版本号的来自引入稳定ID之前的版本，需要迁移；全新安装直接使用当前版本
+		if (data && data.collapseStateVersion === undefined) this.settings.collapseStateVersion = 1;
+		this.settings.titleBarActions = titleBarActions;
 	}
 
 	/**
-	 * 设置 MutationObserver 来监听DOM变化
+	 * 整理标题栏操作列表：复制一份避免改动默认值，去掉未知或重复的操作并补上缺少的操作。
+	 * 旧版本没有该列表，按原来的各按钮开关迁移，原本显示的按钮仍留在标题栏；
+	 * 迁移后从 data 中删去旧开关，避免再写回设置
 	 */
-	private setupMutationObserver() {
-		this.mutationObserver = new MutationObserver((mutations) => {
-			// 检查是否在我们的编辑器中编辑，如果是则跳过处理
-			const activeElement = document.activeElement as HTMLElement;
-			if ((activeElement && activeElement.closest('.embedded-note-editor')) ||
-				document.querySelector('textarea.embedded-note-editor')) {
-				return; // 在我们的编辑器中编辑时，不处理DOM变化
-			}
-			
-			// 检查是否有文件正在创建中，如果有则跳过处理避免卡死
-			if (this.filesBeingCreated.size > 0) {
-				this.log(`Skipping mutation processing due to files being created: ${Array.from(this.filesBeingCreated)}`);
-				return;
-			}
-			
-			let shouldProcess = false;
-			let shouldReprocessNested = false;
-			
-			mutations.forEach((mutation) => {
-				if (mutation.type === 'childList') {
-					mutation.addedNodes.forEach((node) => {
-						if (node.nodeType === Node.ELEMENT_NODE) {
-							const element = node as HTMLElement;
-							// 检查是否添加了新的嵌入块
-							if (element.classList.contains('markdown-embed') || 
-								element.classList.contains('internal-embed') ||
-								element.querySelector('.markdown-embed, .internal-embed')) {
-								shouldProcess = true;
-							}
-							
-							// 检查是否添加了嵌入内容区域
-							if (element.classList.contains('markdown-embed-content') ||
-								element.querySelector('.markdown-embed-content')) {
-								shouldReprocessNested = true;
-							}
-						}
-					});
-					
-					// 检查是否有嵌入块被重新渲染
-					mutation.removedNodes.forEach((node) => {
-						if (node.nodeType === Node.ELEMENT_NODE) {
-							const element = node as HTMLElement;
-							if (element.classList.contains('markdown-embed') || 
-								element.classList.contains('internal-embed')) {
-								shouldReprocessNested = true;
-							}
-						}
-					});
-				} else if (mutation.type === 'attributes') {
-					const el = mutation.target as HTMLElement;
-					// 当嵌入块的 class 变为 is-loaded（Obsidian 完成渲染）时，确保标题栏存在
-					if (el.classList.contains('markdown-embed') || el.classList.contains('internal-embed')) {
-						if (el.classList.contains('is-loaded')) {
-							const hasTitle = !!el.querySelector('.embedded-note-title-bar');
-							if (!hasTitle) {
-								// 即便之前标记过 data-title-bar-added，但若标题栏被系统重渲染覆盖，应当重新插入
-								try { this.processEmbeddedBlock(el); } catch {}
-							}
-							// 无论是否新插入标题栏，统一应用样式，保证与编辑保存后风格一致
-							this.applyUnifiedBlockStyles(el as HTMLElement);
-						}
-					}
-				}
-			});
-			
-			if (shouldProcess) {
-				// 延迟处理，确保DOM完全更新
-				setTimeout(() => {
-					this.processEmbeddedBlocks();
-				}, 300);
-			}
-			
-			if (shouldReprocessNested) {
-				// 延迟处理嵌套嵌入，确保内容完全重新渲染
-				setTimeout(() => {
-					this.reprocessAllNestedEmbeds();
-				}, 500);
-			}
-		});
-		
-		// 开始观察整个文档的变化
-		this.mutationObserver.observe(document.body, {
-			childList: true,
-			subtree: true,
-			attributes: true,
-			attributeFilter: ['class']
+	private normalizeTitleBarActions(data: (Partial<EmbeddedNoteEnhancerSettings> & Record<string, unknown>) | null): TitleBarActionSetting[] {
+		let saved: TitleBarActionSetting[] = DEFAULT_SETTINGS.titleBarActions;
+		if (data && Array.isArray(data.titleBarActions)) {
+			saved = data.titleBarActions;
+		} else if (data) {
+			saved = DEFAULT_SETTINGS.titleBarActions.map(({ action }) => ({
+				action,
+				placement: data[LEGACY_ACTION_TOGGLES[action]] === false ? 'hidden' : 'bar'
+			}));
+		}
+		const result: TitleBarActionSetting[] = [];
+		[...saved, ...DEFAULT_SETTINGS.titleBarActions].forEach(({ action, placement }) => {
+			if (!(action in TITLE_BAR_ACTION_ICONS) || result.some((item) => item.action === action)) return;
+			result.push({ action, placement: ['bar', 'menu', 'hidden'].includes(placement) ? placement : 'bar' });
 		});
+		if (data) Object.values(LEGACY_ACTION_TOGGLES).forEach((key) => delete data[key]);
+		return result;
 	}
 
-	/**
-	 * 设置定期检查机制
-	 */
-	private setupPeriodicCheck() {
-		// 每5秒检查一次是否有未处理的嵌套嵌入
-		this.periodicCheckInterval = setInterval(() => {
-			// 检查是否在我们的编辑器中编辑，如果是则跳过检查
-			const activeElement = document.activeElement as HTMLElement;
-			if ((activeElement && activeElement.closest('.embedded-note-editor')) ||
-				document.querySelector('textarea.embedded-note-editor')) {
-				return; // 在我们的编辑器中编辑时，不进行定期检查
-			}
-			
-			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!activeView) return;
-			
-			const container = activeView.contentEl;
-			if (!container) return;
-			
-			// 查找所有未处理的嵌入块
-			const unprocessedEmbeds = container.querySelectorAll('.markdown-embed:not([data-title-bar-added]), .internal-embed:not([data-title-bar-added])');
-			
-			if (unprocessedEmbeds.length > 0) {
-				// console.log(`[EmbeddedNoteEnhancer] Found ${unprocessedEmbeds.length} unprocessed embeds during periodic check`);
-				unprocessedEmbeds.forEach((embedBlock) => {
-					this.processEmbeddedBlock(embedBlock as HTMLElement);
-				});
-			}
-		}, 10000); // 增加检查间隔到10秒
+	async saveSettings() {
+		await this.saveData(this.settings);
 	}
 
 	/**
@@ -732,21 +1075,27 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				background: var(--background-modifier-active) !important;
 			}
 
-			/* 跳转按钮样式 */
-			.embedded-note-jump-btn {
+			/* 跳转/历史/更多按钮样式 */
+			.embedded-note-jump-btn,
+			.embedded-note-history-btn,
+			.embedded-note-more-btn {
 				background: var(--background-primary) !important;
 				color: var(--interactive-accent, var(--text-accent, var(--accent, #7c3aed))) !important;
 				border: 1px solid var(--interactive-accent, var(--text-accent, var(--accent, #7c3aed))) !important;
 				transition: all 0.2s ease !important;
 			}
 
-			.embedded-note-jump-btn:hover {
+			.embedded-note-jump-btn:hover,
+			.embedded-note-history-btn:hover,
+			.embedded-note-more-btn:hover {
 				background: var(--interactive-accent, var(--text-accent, var(--accent, #7c3aed))) !important;
 				color: var(--background-primary) !important;
 				border-color: var(--interactive-accent, var(--text-accent, var(--accent, #7c3aed))) !important;
 			}
 
-			.embedded-note-jump-btn:active {
+			.embedded-note-jump-btn:active,
+			.embedded-note-history-btn:active,
+			.embedded-note-more-btn:active {
 				background: var(--background-modifier-active) !important;
 			}
 
@@ -846,20 +1195,21 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				}
 			}
 
-			/* 编辑模式样式（使用 textarea 进行原文编辑） */
+			/* 编辑模式样式（使用 Markdown 编辑器进行原文编辑） */
 			.embedded-note-editor {
 				width: 100%;
 				min-height: 140px;
 				box-sizing: border-box;
 				border: 1px solid var(--background-modifier-border);
 				border-radius: 4px;
-				padding: 8px;
+				padding: 4px 8px;
 				background-color: var(--background-primary);
 				color: var(--text-normal);
-				font-family: var(--font-editor);
 				font-size: var(--editor-font-size);
-				line-height: 1.5;
-				resize: vertical;
+			}
+			.embedded-note-editor .cm-scroller {
+				max-height: 60vh;
+				overflow: auto;
 			}
 
 			/* 嵌套嵌入内容的过渡效果 */
@@ -872,30 +1222,27 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	}
 
 	/**
-	 * 处理嵌入块，添加标题栏
+	 * 处理所有 Markdown 视图中已渲染的嵌入块。
+	 * 仅用于冷启动和设置变更，之后的渲染由后处理器与编辑器扩展逐个处理
 	 */
 	public processEmbeddedBlocks() {
-		// 检查是否有文件正在创建中，如果有则跳过处理避免卡死
-		if (this.filesBeingCreated.size > 0) {
-			this.log(`Skipping processEmbeddedBlocks due to files being created: ${Array.from(this.filesBeingCreated)}`);
-			return;
-		}
-		
-		this.throttledProcess('processEmbeddedBlocks', () => {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) return;
-
-		const container = activeView.contentEl;
-		if (!container) return;
-
-		this.processEmbeddedBlocksIn(container);
-		}, 200); // 增加节流时间
+		this.app.workspace.getLeavesOfType('markdown').forEach((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				this.processEmbeddedBlocksIn(leaf.view.contentEl);
+			}
+		});
 	}
 
 	/**
-	 * 在指定容器内处理嵌入块
+	 * 在指定容器内处理嵌入块，每个嵌入块在其内容挂载后处理一次。
+	 * 嵌套嵌入的内容由 Obsidian 再次经过后处理器渲染，无需递归扫描
+	 * @param ctx 后处理器上下文，用于记录嵌入块的宿主笔记及其在源文件中的位置
 	 */
-	private processEmbeddedBlocksIn(container: HTMLElement) {
+	private processEmbeddedBlocksIn(container: HTMLElement, ctx?: MarkdownPostProcessorContext) {
+		if (ctx) {
+			this.recordEmbedSourceInfo(container, ctx);
+		}
+
 		// 查找所有嵌入块 - 尝试多种可能的选择器
 		let embeddedBlocks = container.querySelectorAll('.markdown-embed');
 		if (embeddedBlocks.length === 0) {
@@ -905,187 +1252,145 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			embeddedBlocks = container.querySelectorAll('[data-type="markdown-embed"]');
 		}
 		
-		// 按层级顺序处理，确保父级嵌入块先被处理
-		const blocksArray = Array.from(embeddedBlocks) as HTMLElement[];
-		blocksArray.sort((a, b) => {
-			const aLevel = this.calculateNestLevel(a);
-			const bLevel = this.calculateNestLevel(b);
-			return aLevel - bLevel;
-		});
-		
-		// 处理所有嵌入块
-		blocksArray.forEach((block) => {
-			// 检查是否为图片嵌入，如果是则跳过处理
-			if (this.isImageEmbed(block)) {
-				if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping image embed in main processing:`, block);
-				return;
-			}
-			
-			// 检查是否为PDF嵌入，如果是则跳过处理
-			if (this.isPdfEmbed(block)) {
-				if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping PDF embed in main processing:`, block);
-				return;
-			}
-			
-			this.processEmbeddedBlock(block);
-			// 冷启动/首轮渲染时强制统一样式
-			this.applyUnifiedBlockStyles(block);
-		});
-		
-		// 延迟递归处理嵌套的嵌入块，确保DOM完全渲染
-		setTimeout(() => {
-			this.processNestedEmbeds(container, 0);
-		}, 100);
-		
-		// 再次延迟处理，确保所有嵌套内容都已渲染
-		setTimeout(() => {
-			this.processNestedEmbeds(container, 0);
-		}, 300);
-		
-		// 使用更长的延迟来处理复杂的嵌套结构
-		setTimeout(() => {
-			this.processNestedEmbeds(container, 0);
-		}, 600);
-		
-		// 最后尝试处理所有可能的嵌套嵌入
-		setTimeout(() => {
-			this.processAllNestedEmbeds(container);
-		}, 1000);
+		(Array.from(embeddedBlocks) as HTMLElement[]).forEach((block) => this.enhanceWhenReady(block));
 	}
 
 	/**
-	 * 递归处理嵌套的嵌入块
+	 * 嵌入内容已挂载时立即处理；否则只观察该嵌入块自身，内容挂载后处理并断开
 	 */
-	private processNestedEmbeds(container: HTMLElement, depth: number = 0) {
-		// 防止无限递归，限制最大深度
-		if (depth > 10) {
-			this.warn(`Maximum recursion depth reached in processNestedEmbeds`);
+	private enhanceWhenReady(block: HTMLElement) {
+		if (this.isEmbedReady(block)) {
+			this.enhanceEmbed(block);
 			return;
 		}
+		if (this.pendingEmbeds.has(block)) return;
 
-		// 防止短时间内重复处理同一个容器
-		if (this.processingContainers.has(container)) {
-			this.log(`Container already being processed, skipping`);
-			return;
-		}
-
-		// 检查当前文件是否需要处理嵌套嵌入
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView?.file && !this.shouldReprocessNestedEmbeds(activeView.file.path)) {
-			this.log(`Skipping nested processing due to cache`);
-			return;
-		}
-
-		this.processingContainers.add(container);
-		
-		// 查找所有嵌入块，包括嵌套的
-		const allEmbeds = container.querySelectorAll('.markdown-embed, .internal-embed, [data-type="markdown-embed"]');
-		
-		let hasNewEmbeds = false;
-		let processedCount = 0;
-		let imageEmbedCount = 0;
-		
-		allEmbeds.forEach((embedBlock) => {
-			// 检查是否为图片嵌入，如果是则跳过处理
-			if (this.isImageEmbed(embedBlock as HTMLElement)) {
-				imageEmbedCount++;
-				this.log(`Skipping nested image embed`);
-				return;
-			}
-			
-			// 检查是否为PDF嵌入，如果是则跳过处理
-			if (this.isPdfEmbed(embedBlock as HTMLElement)) {
-				this.log(`Skipping nested PDF embed`);
+		const observer = new MutationObserver(() => {
+			if (this.isUnloaded) {
+				observer.disconnect();
 				return;
 			}
-			
-			// 只处理尚未处理的嵌入块
-			if (!embedBlock.hasAttribute('data-title-bar-added')) {
-			this.log(`Processing nested embed: ${embedBlock.className}`);
-				this.processEmbeddedBlock(embedBlock as HTMLElement);
-				processedCount++;
-				hasNewEmbeds = true;
-			}
+			if (!this.isEmbedReady(block)) return;
+			observer.disconnect();
+			this.pendingEmbeds.delete(block);
+			this.enhanceEmbed(block);
 		});
-		
-		// 如果是第一次处理（depth === 0），缓存文件的嵌入结构信息
-		if (depth === 0 && activeView?.file) {
-			this.cacheFileEmbedStructure(activeView.file.path, allEmbeds.length, imageEmbedCount > 0);
+		observer.observe(block, {
+			childList: true,
+			subtree: true,
+			attributes: true,
+			attributeFilter: ['class']
+		});
+		this.pendingEmbeds.set(block, observer);
+	}
+
+	/** 嵌入内容是否已挂载（Obsidian 完成加载后会添加 is-loaded） */
+	private isEmbedReady(block: HTMLElement): boolean {
+		return block.classList.contains('is-loaded') || !!this.getEmbedContent(block);
+	}
+
+	/**
+	 * 为单个已挂载内容的嵌入块添加标题栏并统一样式
+	 */
+	private enhanceEmbed(block: HTMLElement) {
+		// 检查是否为图片嵌入，如果是则跳过处理
+		if (this.isImageEmbed(block)) {
+			if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping image embed in main processing:`, block);
+			return;
 		}
 		
-		// 如果发现了新的嵌入块，再次递归处理（处理多层嵌套）
-		if (hasNewEmbeds && processedCount > 0) {
-			setTimeout(() => {
-				this.processNestedEmbeds(container, depth + 1);
-			}, 50);
+		// 检查是否为PDF嵌入，如果是则跳过处理
+		if (this.isPdfEmbed(block)) {
+			if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping PDF embed in main processing:`, block);
+			return;
 		}
-
-		// 每轮处理后，统一刷新嵌套层级标记，确保缩进样式不丢
-		this.refreshAllNestLevels();
 		
-		// 应用保存的折叠状态到嵌套嵌入
-		this.applySavedCollapseStates();
+		this.processEmbeddedBlock(block);
+		if (!block.hasAttribute('data-embedded-note-skipped')) this.applyUnifiedBlockStyles(block);
+		// 先于外层挂载的嵌套嵌入，层级需按当前位置重新计算
+		block.querySelectorAll('[data-embedded-note-enhanced]').forEach((el) => this.applyUnifiedBlockStyles(el as HTMLElement));
+	}
 
-		// 清理容器处理标记
-		setTimeout(() => {
-			this.processingContainers.delete(container);
-		}, 100);
+	/**
+	 * 记录目标笔记尚不存在的嵌入块，笔记创建后再处理
+	 */
+	private awaitEmbedTarget(block: HTMLElement, linkpath: string) {
+		let refs = this.embedsAwaitingTarget.get(linkpath);
+		if (!refs) {
+			refs = new Set();
+			this.embedsAwaitingTarget.set(linkpath, refs);
+		}
+		for (const ref of refs) {
+			if (ref.deref() === block) return;
+		}
+		refs.add(new WeakRef(block));
 	}
 
 	/**
-	 * 处理所有可能的嵌套嵌入（更全面的方法）
+	 * 重试等待目标笔记的嵌入块，已被回收或移出文档的嵌入块直接丢弃
 	 */
-	private processAllNestedEmbeds(container: HTMLElement) {
-		// 查找所有可能的嵌入块，使用更广泛的选择器
-		const allPossibleEmbeds = container.querySelectorAll(`
-			.markdown-embed,
-			.internal-embed,
-			[data-type="markdown-embed"],
-			.markdown-embed-content .markdown-embed,
-			.markdown-embed-content .internal-embed,
-			.internal-embed-content .markdown-embed,
-			.internal-embed-content .internal-embed
-		`);
-		
-		// let processedCount = 0;
-		
-		allPossibleEmbeds.forEach((embedBlock) => {
-			// 只处理尚未处理的嵌入块
-			if (!embedBlock.hasAttribute('data-title-bar-added')) {
-				// 检查是否为图片嵌入，如果是则跳过处理
-				if (this.isImageEmbed(embedBlock as HTMLElement)) {
-					this.log(`Skipping comprehensive processing of image embed`);
+	private retryAwaitingEmbeds() {
+		this.embedsAwaitingTarget.forEach((refs, linkpath) => {
+			refs.forEach((ref) => {
+				const block = ref.deref();
+				if (!block || !block.isConnected) {
+					refs.delete(ref);
 					return;
 				}
-				
-				// 检查是否为PDF嵌入，如果是则跳过处理
-				if (this.isPdfEmbed(embedBlock as HTMLElement)) {
-					this.log(`Skipping comprehensive processing of PDF embed`);
-					return;
-				}
-				
-				// console.log(`[EmbeddedNoteEnhancer] Comprehensive processing of embed:`, embedBlock);
-				// console.log(`[EmbeddedNoteEnhancer] Block classes:`, embedBlock.className);
-				// console.log(`[EmbeddedNoteEnhancer] Block parent:`, embedBlock.parentElement);
-				
-				// 尝试处理这个嵌入块
-				try {
-					this.processEmbeddedBlock(embedBlock as HTMLElement);
-					// processedCount++;
-				} catch (error) {
-					this.error(`Error processing embed:`, error);
-				}
+				if (!this.resolveFileLink(linkpath, this.getBlockSourcePath(block))) return;
+				refs.delete(ref);
+				this.enhanceEmbed(block);
+			});
+			if (refs.size === 0) this.embedsAwaitingTarget.delete(linkpath);
+		});
+	}
+
+	/** 当前文档中所有已增强的嵌入块 */
+	private getEnhancedBlocks(): HTMLElement[] {
+		return Array.from(document.querySelectorAll('.markdown-embed[data-embedded-note-enhanced], .internal-embed[data-embedded-note-enhanced]')) as HTMLElement[];
+	}
+
+	/**
+	 * 处理实时预览编辑器中的嵌入小部件，由 CodeMirror 扩展在小部件插入或加载完成时调用
+	 * @param sourcePath 编辑器所编辑笔记的路径，即这些嵌入的宿主
+	 */
+	public enhanceEditorEmbeds(embeds: HTMLElement[], sourcePath: string) {
+		embeds.forEach((block) => {
+			if (sourcePath && !block.hasAttribute('data-source-path')) {
+				block.setAttribute('data-source-path', sourcePath);
+			}
+			// 内容尚未加载时跳过，等待 is-loaded 后再次触发（此时才能可靠判断图片/PDF）
+			if (!this.getEmbedContent(block)) return;
+			const hadTitleBar = !!block.querySelector('.embedded-note-title-bar');
+			this.enhanceEmbed(block);
+			// 阻止标题栏上的点击被编辑器当作移动光标，避免展开为源码
+			const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+			if (titleBar && !hadTitleBar) {
+				this.addTrackedEventListener(titleBar, 'mousedown', (e: Event) => e.stopPropagation());
+			}
+		});
+	}
+
+	/**
+	 * 在后处理阶段为嵌入块记录宿主路径、所在段落的起始行及其在段落内指向同一目标的嵌入中的序号
+	 */
+	private recordEmbedSourceInfo(container: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		const section = ctx.getSectionInfo(container);
+		const seen = new Map<string, number>();
+		const embeds = Array.from(container.querySelectorAll('.markdown-embed, .internal-embed')) as HTMLElement[];
+		if (container.matches('.markdown-embed, .internal-embed')) embeds.unshift(container);
+		embeds.forEach((el) => {
+			if (!el.hasAttribute('data-source-path')) el.setAttribute('data-source-path', ctx.sourcePath);
+			if (section && !el.hasAttribute('data-source-line')) {
+				// 与 getEmbedOccurrence 一致按解析后的目标计数，写法不同但指向同一笔记的链接共用序号
+				const target = this.getEmbedTarget(el.getAttribute('src') || '', ctx.sourcePath);
+				const targetKey = target.path + target.subpath;
+				const index = seen.get(targetKey) || 0;
+				seen.set(targetKey, index + 1);
+				el.setAttribute('data-source-line', String(section.lineStart));
+				el.setAttribute('data-source-index', String(index));
 			}
-			// 无论是否新处理，都统一一次样式
-			this.applyUnifiedBlockStyles(embedBlock as HTMLElement);
 		});
-		
-		// console.log(`[EmbeddedNoteEnhancer] Comprehensive method processed ${processedCount} new embeds`);
-		// 处理完成后刷新嵌套层级
-		this.refreshAllNestLevels();
-		
-		// 应用保存的折叠状态到所有嵌入块（包括嵌套的）
-		this.applySavedCollapseStates();
 	}
 
 	/**
@@ -1106,7 +1411,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	 * 根据当前设置，立即对所有已处理的嵌入块应用原地编辑开关
 	 */
     public applyInlineEditingState() {
-        this.embeddedBlocks.forEach((block) => {
+        this.getEnhancedBlocks().forEach((block) => {
             const embedContent = block.querySelector('.markdown-embed-content') as HTMLElement | null;
             if (!embedContent) return;
             const isCollapsed = block.classList.contains('embedded-note-collapsed');
@@ -1122,16 +1427,12 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	 * 根据设置对当前已打开的编辑器应用/移除预览
 	 */
 	public async applyLivePreviewState() {
-		for (const [, block] of this.embeddedBlocks) {
-			const embedContent = this.getEmbedContent(block) as HTMLElement | null;
-			if (!embedContent) continue;
-			const editor = embedContent.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
-			const existing = embedContent.querySelector('.embedded-note-preview') as HTMLElement | null;
-			if (!editor) continue;
-            if (this.settings.livePreviewEnabled) {
-                // 预览功能已移除；此分支保留兼容但不做任何事
-            } else {
-				if (existing) existing.remove();
+		for (const block of this.getEnhancedBlocks()) {
+			if (!this.inlineEditors.has(block)) continue;
+			// 先移除再按当前布局重建，切换布局时同样适用
+			this.detachEditPreview(block);
+			if (this.settings.livePreviewEnabled) {
+				this.attachEditPreview(block);
 			}
 		}
 	}
@@ -1214,100 +1515,74 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			return;
 		}
 
-		// 检查文件名是否包含特殊字符，如果有则跳过（可能是用户正在输入）
-		if (fileName.includes(' ') || fileName.includes('\n') || fileName.includes('\t')) {
-			if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping embed with special characters: ${href}`);
+		// 换行符不可能出现在有效的链接中
+		if (fileName.includes('\n')) {
+			if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping embed with line break: ${href}`);
+			return;
+		}
+
+		// 用户仍在输入该嵌入链接时跳过，输入完成后会重新渲染并再次处理
+		if (this.isEmbedLinkBeingTyped(block, fileName)) {
+			if (this.debugVerbose) console.log(`[EmbeddedNoteEnhancer] Skipping embed still being typed: ${href}`);
 			return;
 		}
 
+		// 记录子路径（#标题），嵌入块自身的 src 最能反映原始链接
+		const linkSubpath = this.extractLinkSubpath(block.getAttribute('src') || href);
+
 		// console.log(`[EmbeddedNoteEnhancer] Extracted fileName: ${fileName}`);
 
-        // 检查文件是否存在，如果正在创建则延迟处理
+        // 检查文件是否存在
         let fileExists = false;
-        let isFileBeingCreated = false;
         
+        // 记录宿主笔记路径，后续所有链接解析都以此为来源
+        const sourcePath = this.getBlockSourcePath(block);
+        block.setAttribute('data-source-path', sourcePath);
+
         // 方法1：使用 metadataCache 解析链接
-        const resolvedFile = this.app.metadataCache.getFirstLinkpathDest(fileName, this.app.workspace.getActiveFile()?.path || '');
+        const resolvedFile = this.app.metadataCache.getFirstLinkpathDest(fileName, sourcePath);
         if (resolvedFile) {
             fileExists = true;
         } else {
-            // 方法2：直接检查文件路径
-            const directFile = this.app.vault.getAbstractFileByPath(fileName);
-            if (directFile) {
-                fileExists = true;
-            } else {
-                // 方法3：检查带 .md 扩展名的文件
-                const mdFile = this.app.vault.getAbstractFileByPath(`${fileName}.md`);
-                if (mdFile) {
-                    fileExists = true;
-                } else {
-                    // 检查是否正在创建文件
-                    isFileBeingCreated = this.filesBeingCreated.has(fileName) || 
-                                       this.filesBeingCreated.has(`${fileName}.md`);
-                }
-            }
+            // 方法2：直接检查文件路径；方法3：检查带 .md 扩展名的文件
+            fileExists = !!this.app.vault.getAbstractFileByPath(fileName) ||
+                         !!this.app.vault.getAbstractFileByPath(`${fileName}.md`);
         }
         
 		this.logOnce('file-exists', `File check: ${fileName} - exists: ${fileExists}`);
         
         if (!fileExists) {
-            if (isFileBeingCreated) {
-                // 文件正在创建中，延迟处理
-				this.log(`File being created, delaying: ${fileName}`);
-                // 添加递归深度限制，防止无限循环
-                const recursionCount = parseInt(block.getAttribute('data-recursion-count') || '0');
-                if (recursionCount >= 3) { // 减少最大递归次数
-                    this.warn(`Maximum recursion depth reached for file creation: ${fileName}, removing enhancement`);
-                    this.removeEnhancement(block);
-                    return;
-                }
-                
-                // 增加递归计数
-                block.setAttribute('data-recursion-count', String(recursionCount + 1));
-                
-                // 增加延迟时间，减少处理频率
-                setTimeout(() => {
-                    this.processEmbeddedBlock(block);
-                }, 2000); // 从1秒增加到2秒
-                return;
-            } else {
-                // 文件不存在且不在创建中，检查是否应该标记为正在创建
-                // 只有当文件名看起来完整且有效时才标记为正在创建
-                if (fileName && fileName.trim() !== '' && fileName !== ' ' && 
-                    !fileName.includes('[') && !fileName.includes(']') && !fileName.includes('!') &&
-                    !fileName.includes(' ') && !fileName.includes('\n') && !fileName.includes('\t')) {
-                    
-                    // 标记为正在创建，但设置超时清理
-                    this.filesBeingCreated.add(fileName);
-                    this.filesBeingCreated.add(`${fileName}.md`);
-                    console.log(`[EmbeddedNoteEnhancer] Detected file creation: ${fileName}`);
-                    
-                    // 设置超时清理，防止永久卡住
-                    setTimeout(() => {
-                        this.filesBeingCreated.delete(fileName);
-                        this.filesBeingCreated.delete(`${fileName}.md`);
-                        this.log(`Cleared file creation tracking for: ${fileName}`);
-                    }, 15000); // 增加到15秒后清理
-                    
-                    // 延迟处理，增加延迟时间
-                    setTimeout(() => {
-                        this.processEmbeddedBlock(block);
-                    }, 2000); // 从1秒增加到2秒
-                    return;
-                } else {
-                    // 文件名不完整或无效，移除增强
-                    this.warn(`File does not exist and name appears incomplete, removing enhancement: ${fileName}`);
-                    this.removeEnhancement(block);
-                    return;
-                }
+            // 目标笔记尚未创建（或元数据尚未就绪）：保持 Obsidian 默认显示，
+            // 由 vault create / metadata resolved 事件触发重试，不再定时轮询
+            if (block.hasAttribute('data-embedded-note-enhanced')) {
+                this.removeEnhancement(block);
             }
+            this.awaitEmbedTarget(block, fileName);
+            this.log(`File does not exist yet, waiting for it: ${fileName}`);
+            return;
         }
 
 		// 计算嵌套层级
 		const nestLevel = this.calculateNestLevel(block);
 
 		// 生成唯一ID
-		const blockId = this.generateBlockId(block, fileName);
+		const blockId = this.generateBlockId(block, fileName, linkSubpath);
+
+		// 读取链接别名修饰符及目标/宿主笔记 frontmatter 中声明的呈现方式
+		const targetFile = this.resolveFileLink(fileName, sourcePath);
+		const displayOptions = this.getEmbedDisplayOptions(block, targetFile, sourcePath);
+		// 未显式指定标题时，按设置的标题来源与模板计算
+		if (displayOptions.title === undefined) {
+			displayOptions.title = this.resolveTitleText(block, fileName, linkSubpath, targetFile);
+		}
+		// 规则要求保持 Obsidian 默认显示
+		// 标记为已处理，视口变化时不再重新排队，也不写入嵌套层级
+		if (displayOptions.skip) {
+			block.setAttribute('data-embedded-note-skipped', 'true');
+			this.log(`Skipping embed by rule: ${fileName}`);
+			return;
+		}
+		block.removeAttribute('data-embedded-note-skipped');
 		
 		// 检查是否已经有标题栏，避免重复插入
 		const existingTitleBar = block.querySelector('.embedded-note-title-bar');
@@ -1317,7 +1592,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		}
 		
 		// 创建标题栏
-		const titleBar = this.createTitleBar(fileName, blockId, nestLevel);
+		const titleBar = this.createTitleBar(fileName, blockId, nestLevel, linkSubpath, displayOptions);
 		
 		// 检查内容区域是否存在且有效（兼容 internal-embed-content）
 		let embedContent = this.getEmbedContent(block);
@@ -1332,13 +1607,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				// 将容器放到块内
 				block.appendChild(container);
 				// 渲染源文件内容
-				const activeFile = this.app.workspace.getActiveFile();
-				let file = this.app.metadataCache.getFirstLinkpathDest(fileName, activeFile?.path || '');
-				if (!file) {
-					const direct = this.app.vault.getAbstractFileByPath(fileName);
-					const withMd = this.app.vault.getAbstractFileByPath(`${fileName}.md`);
-					file = (direct instanceof TFile ? direct : null) || (withMd instanceof TFile ? withMd : null);
-				}
+				const file = this.resolveFileLink(fileName, sourcePath);
 				if (file) {
 					this.app.vault.read(file)
 						.then((md) => {
@@ -1356,6 +1625,12 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			}
 		}
 		
+		// 无障碍：标题栏通过 aria-controls 指向其控制的内容区域
+		if (!embedContent.id) {
+			embedContent.id = `embedded-note-content-${++this.contentIdCounter}`;
+		}
+		titleBar.setAttribute('aria-controls', embedContent.id);
+
 		// console.log(`[EmbeddedNoteEnhancer] Content area found for block ${blockId}:`, embedContent);
 		// console.log(`[EmbeddedNoteEnhancer] Content area text content:`, embedContent.textContent?.substring(0, 100));
 		
@@ -1378,15 +1653,23 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		block.setAttribute('data-title-bar-added', 'true');
 		block.setAttribute('data-block-id', blockId);
 		block.setAttribute('data-file-link', fileName);
+		if (linkSubpath) {
+			block.setAttribute('data-link-subpath', linkSubpath);
+		}
 		block.setAttribute('data-embedded-note-enhanced', 'true');
 		block.setAttribute('data-nest-level', nestLevel.toString());
 		// 移除直接样式设置，使用CSS类
 		// 确保初始状态为非编辑状态
 		block.setAttribute('data-editing', 'false');
+		void this.updateBadges(block);
+		this.updateLockState(block);
 
 		// 关键：设置 tabindex 以允许内部元素获得焦点，并阻止容器级别的快捷键
 		block.setAttribute('tabindex', '-1');
 		const keydownHandler = (e: KeyboardEvent) => {
+			// 标题栏上的按键由标题栏自身处理（Enter/Space/方向键）；
+			// 原地编辑器需要收到按键，由编辑器自身阻断向宿主冒泡
+			if ((e.target as HTMLElement | null)?.closest?.('.embedded-note-title-bar, .embedded-note-editor')) return;
 			// 当焦点在编辑器内时，阻断传播
 			const active = document.activeElement;
 			if (active && active.closest('[data-block-id="' + blockId + '"]')) {
@@ -1415,11 +1698,13 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				this.addTrackedEventListener(el as HTMLElement, 'click', stopOpen, true);
 			});
 		
-		// 存储引用
-		this.embeddedBlocks.set(blockId, block);
-		
-		// 设置初始状态
-		const isCollapsed = this.collapseStates.get(blockId) || false;
+		if (!displayOptions.editable) {
+			block.setAttribute('data-editable', 'false');
+		}
+
+		// 设置初始状态：用户保存的折叠状态优先，其次为 frontmatter 声明的默认状态
+		const savedState = this.collapseStates.get(blockId);
+		const isCollapsed = savedState !== undefined ? savedState : (displayOptions.collapsed ?? false);
 		this.setBlockCollapsed(block, isCollapsed);
 		
 		// 调试：检查标题栏是否真的被创建
@@ -1429,6 +1714,338 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 读取嵌入呈现选项，优先级从低到高：
+	 * 宿主笔记的 embeds-default（collapsed | expanded）声明其中嵌入的默认折叠状态；
+	 * 设置中的嵌入规则按目标/宿主文件夹、标签、嵌套深度与行数匹配；
+	 * 目标笔记的 embed-collapsed / embed-editable / embed-title 声明自身被嵌入时的表现；
+	 * 链接别名中的修饰符（![[笔记|collapsed]]）只作用于该处嵌入
+	 */
+	private getEmbedDisplayOptions(block: HTMLElement, target: TFile | null, sourcePath: string): EmbedDisplayOptions {
+		const options: EmbedDisplayOptions = { editable: true, showTitleBar: true };
+		const host = this.app.vault.getAbstractFileByPath(sourcePath);
+		const hostFrontmatter = host instanceof TFile ? this.app.metadataCache.getFileCache(host)?.frontmatter : undefined;
+		const hostDefault = String(hostFrontmatter?.['embeds-default'] ?? '').trim().toLowerCase();
+		if (hostDefault === 'collapsed') options.collapsed = true;
+		else if (hostDefault === 'expanded') options.collapsed = false;
+
+		const rule = this.matchEmbedRule(block, target, sourcePath);
+		if (rule) {
+			if (rule.collapsed) options.collapsed = true;
+			if (rule.readOnly) options.editable = false;
+			if (rule.hideTitleBar) options.showTitleBar = false;
+			if (rule.skip) options.skip = true;
+		}
+
+		const frontmatter = target ? this.app.metadataCache.getFileCache(target)?.frontmatter : undefined;
+		if (frontmatter) {
+			const collapsed = this.parseFrontmatterBoolean(frontmatter['embed-collapsed']);
+			if (collapsed !== undefined) options.collapsed = collapsed;
+			const editable = this.parseFrontmatterBoolean(frontmatter['embed-editable']);
+			if (editable !== undefined) options.editable = editable;
+			const title = frontmatter['embed-title'];
+			if (typeof title === 'string' && title.trim() !== '') options.title = title.trim();
+		}
+
+		this.applyAliasModifiers(block.getAttribute('alt') || '', options);
+		// 没有标题栏时无法再展开，始终保持展开
+		if (!options.showTitleBar) options.collapsed = false;
+		return options;
+	}
+
+	/** 笔记是否带有该标签或其子标签（不区分大小写，# 可省略） */
+	private cacheHasTag(cache: CachedMetadata | null, tag: string): boolean {
+		const wanted = tag.trim().toLowerCase().replace(/^#?/, '#');
+		if (!cache || wanted === '#') return false;
+		return (getAllTags(cache) || []).some((found) => {
+			const current = found.toLowerCase();
+			return current === wanted || current.startsWith(wanted + '/');
+		});
+	}
+
+	/**
+	 * 笔记是否锁定为只读：frontmatter 中 locked: true、带有锁定标签或位于受保护的文件夹
+	 */
+	public isFileLocked(file: TFile): boolean {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (this.parseFrontmatterBoolean(cache?.frontmatter?.locked) === true) return true;
+		if (this.settings.lockTag.trim() && this.cacheHasTag(cache, this.settings.lockTag)) return true;
+		return this.settings.protectedFolders.some((pattern) => pattern.trim() !== '' && matchPathPattern(file.path, pattern));
+	}
+
+	/** 按锁定状态显示标题栏的锁标记，并禁用编辑按钮（编辑中时保留"完成"可用） */
+	public updateLockState(block: HTMLElement) {
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const file = this.resolveLinkedFile(block);
+		if (!titleBar || !file) return;
+		const locked = this.isFileLocked(file);
+		titleBar.classList.toggle('embedded-note-locked', locked);
+
+		let indicator = titleBar.querySelector('.embedded-note-lock-indicator');
+		if (locked && !indicator) {
+			indicator = document.createElement('span');
+			indicator.className = 'embedded-note-lock-indicator';
+			indicator.textContent = '🔒';
+			indicator.setAttribute('aria-label', t('titleBar.locked'));
+			indicator.setAttribute('title', t('titleBar.locked'));
+			const titleText = titleBar.querySelector('.embedded-note-title-text');
+			if (titleText) {
+				titleText.after(indicator);
+			} else {
+				titleBar.prepend(indicator);
+			}
+		} else if (!locked && indicator) {
+			indicator.remove();
+		}
+
+		const editBtn = titleBar.querySelector('.embedded-note-edit-btn') as HTMLButtonElement | null;
+		if (editBtn && block.getAttribute('data-editing') !== 'true') {
+			editBtn.disabled = locked;
+			const title = titleBar.querySelector('.embedded-note-title-text')?.textContent || '';
+			editBtn.setAttribute('aria-label', locked ? t('titleBar.lockedEdit') : this.getTitleBarActionLabel('edit', title, false));
+		}
+	}
+
+	/** 找出第一条与该嵌入匹配的已启用规则 */
+	private matchEmbedRule(block: HTMLElement, target: TFile | null, sourcePath: string): EmbedRule | undefined {
+		const rules = this.settings.rules.filter((rule) => rule.enabled);
+		if (rules.length === 0) return undefined;
+		const cache = target ? this.app.metadataCache.getFileCache(target) : null;
+		const sections = cache?.sections;
+		// 元数据尚未就绪时行数未知，带行数条件的规则视为不匹配
+		const lines = cache ? (sections && sections.length > 0 ? sections[sections.length - 1].position.end.line + 1 : 0) : null;
+		const nestLevel = this.calculateNestLevel(block);
+		const inRange = (value: number, min: number | null, max: number | null) => (min === null || value >= min) && (max === null || value <= max);
+
+		return rules.find((rule) => {
+			if (rule.targetFolder.trim() && !(target && matchPathPattern(target.path, rule.targetFolder))) return false;
+			if (rule.hostFolder.trim() && !matchPathPattern(sourcePath, rule.hostFolder)) return false;
+			if (rule.targetTag.trim() && !this.cacheHasTag(cache, rule.targetTag)) return false;
+			if (!inRange(nestLevel, rule.minNestLevel, rule.maxNestLevel)) return false;
+			if (rule.minLines === null && rule.maxLines === null) return true;
+			return lines !== null && inRange(lines, rule.minLines, rule.maxLines);
+		});
+	}
+
+	/**
+	 * 解析链接别名中的修饰符，以逗号分隔：collapsed、expanded、noedit、notitle、title=文本。
+	 * title= 作为最后一项，取到别名末尾，标题中可以包含逗号。
+	 * 只要有一项无法识别，就视为普通别名，不做任何处理并返回 false
+	 */
+	private applyAliasModifiers(alias: string, options: EmbedDisplayOptions): boolean {
+		if (!alias.trim()) return false;
+		const modifiers: Partial<EmbedDisplayOptions> = {};
+		let head = alias;
+		const titleMatch = alias.match(/(?:^|,)\s*title=/i);
+		if (titleMatch && titleMatch.index !== undefined) {
+			const title = alias.slice(titleMatch.index + titleMatch[0].length).trim();
+			if (!title) return false;
+			modifiers.title = title;
+			head = alias.slice(0, titleMatch.index);
+		}
+		const tokens = head.split(',').map((token) => token.trim()).filter((token) => token !== '');
+		for (const token of tokens) {
+			const lower = token.toLowerCase();
+			if (lower === 'collapsed') modifiers.collapsed = true;
+			else if (lower === 'expanded') modifiers.collapsed = false;
+			else if (lower === 'noedit') modifiers.editable = false;
+			else if (lower === 'notitle') modifiers.showTitleBar = false;
+			else return false;
+		}
+		Object.assign(options, modifiers);
+		return true;
+	}
+
+	/** 链接别名（![[笔记|别名]]），未写别名或别名为修饰符时返回 undefined */
+	private getLinkAlias(block: HTMLElement, fileName: string, linkSubpath: string): string | undefined {
+		const alias = (block.getAttribute('alt') || '').trim();
+		if (!alias || alias === block.getAttribute('src') || alias === fileName + linkSubpath) return undefined;
+		if (this.applyAliasModifiers(alias, { editable: true, showTitleBar: true })) return undefined;
+		return alias;
+	}
+
+	/**
+	 * 按设置的标题来源计算标题文本，取不到时回退为链接文本；设置了模板时再代入模板。
+	 * 模板变量：{{title}} {{link}} {{alias}} {{basename}} {{path}} {{folder}} {{subpath}} {{heading}}
+	 */
+	private resolveTitleText(block: HTMLElement, fileName: string, linkSubpath: string, target: TFile | null): string {
+		const cache = target ? this.app.metadataCache.getFileCache(target) : null;
+		const alias = this.getLinkAlias(block, fileName, linkSubpath);
+		const heading = cache?.headings?.find((h) => h.level === 1)?.heading;
+		const folder = target?.parent && !target.parent.isRoot() ? target.parent.path : '';
+		const frontmatterTitle = cache?.frontmatter?.title;
+
+		let title: string | undefined;
+		switch (this.settings.titleSource) {
+			case 'alias': title = alias; break;
+			case 'frontmatter':
+				if (typeof frontmatterTitle === 'string' || typeof frontmatterTitle === 'number') title = String(frontmatterTitle).trim();
+				break;
+			case 'firstAlias': title = parseFrontMatterAliases(cache?.frontmatter)?.[0]; break;
+			case 'heading': title = heading; break;
+			case 'basename': title = target?.basename; break;
+			case 'path': title = target ? [...folder.split('/').filter((part) => part !== ''), target.basename].join(' › ') : undefined; break;
+		}
+		// 链接文本本身含子路径；其他来源（别名除外）补上子路径，区分同一笔记的不同片段
+		if (!title) {
+			title = fileName + linkSubpath;
+		} else if (this.settings.titleSource !== 'alias') {
+			title += linkSubpath;
+		}
+
+		const template = this.settings.titleTemplate.trim();
+		if (!template) return title;
+		const values: Record<string, string> = {
+			title,
+			link: fileName + linkSubpath,
+			alias: alias || '',
+			basename: target?.basename ?? fileName,
+			path: target?.path ?? fileName,
+			folder,
+			subpath: linkSubpath,
+			heading: heading || ''
+		};
+		// 去掉空变量留下的首尾分隔符，如根目录笔记的 "{{title}} · {{folder}}"
+		const result = template
+			.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => key in values ? values[key] : match)
+			.replace(/^[\s·|/:\-–—]+|[\s·|/:\-–—]+$/g, '');
+		return result || title;
+	}
+
+	/** 按当前设置与元数据重新计算标题栏文本，并同步按钮的无障碍标签 */
+	public refreshTitleText(block: HTMLElement) {
+		const fileName = block.getAttribute('data-file-link');
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const titleText = titleBar?.querySelector('.embedded-note-title-text');
+		if (!fileName || !titleBar || !titleText) return;
+		const sourcePath = this.getBlockSourcePath(block);
+		const target = this.resolveFileLink(fileName, sourcePath);
+		const linkSubpath = block.getAttribute('data-link-subpath') || '';
+		const title = this.getEmbedDisplayOptions(block, target, sourcePath).title ?? this.resolveTitleText(block, fileName, linkSubpath, target);
+		if (titleText.textContent === title) return;
+		titleText.textContent = title;
+		titleBar.setAttribute('aria-label', title);
+		const editing = block.getAttribute('data-editing') === 'true';
+		(Object.keys(TITLE_BAR_ACTION_ICONS) as TitleBarAction[]).forEach((action) => {
+			const button = titleBar.querySelector(`.embedded-note-${action}-btn`);
+			if (action === 'edit' && (button as HTMLButtonElement | null)?.disabled) return;
+			button?.setAttribute('aria-label', this.getTitleBarActionLabel(action, title, editing));
+		});
+	}
+
+	/**
+	 * 按设置在标题栏名称后显示嵌入笔记的标签、修改时间、字数与反向链接数，
+	 * 均取自 metadataCache 与 TFile.stat；全部关闭时移除徽章
+	 */
+	public async updateBadges(block: HTMLElement) {
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const file = this.resolveLinkedFile(block);
+		if (!titleBar || !file) return;
+		const { showTagBadges, showModifiedBadge, showWordCountBadge, showBacklinkBadge } = this.settings;
+		let badges = titleBar.querySelector('.embedded-note-badges') as HTMLElement | null;
+		if (!showTagBadges && !showModifiedBadge && !showWordCountBadge && !showBacklinkBadge) {
+			badges?.remove();
+			return;
+		}
+
+		// 字数需要读取内容，先取齐数据再一次性替换，避免徽章闪烁
+		const items: Array<{ cls: string; text: string; label: string }> = [];
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (showTagBadges) {
+			const tags = Array.from(new Set((cache ? getAllTags(cache) : null) || []));
+			tags.slice(0, 3).forEach((tag) => items.push({ cls: 'is-tag', text: tag, label: t('badge.tag', { tag }) }));
+			if (tags.length > 3) items.push({ cls: 'is-tag', text: `+${tags.length - 3}`, label: t('badge.moreTags', { tags: tags.slice(3).join(' ') }) });
+		}
+		if (showModifiedBadge) {
+			const modified = new Date(file.stat.mtime);
+			items.push({ cls: 'is-modified', text: modified.toLocaleDateString(), label: t('badge.modified', { time: modified.toLocaleString() }) });
+		}
+		if (showWordCountBadge) {
+			try {
+				const content = await this.app.vault.cachedRead(file);
+				const words = countWords(content.slice(Math.max(0, this.findFrontmatterEnd(file, content))));
+				items.push({ cls: 'is-words', text: t('badge.words', { count: words }), label: t('badge.wordsLabel', { count: words }) });
+			} catch {}
+		}
+		if (showBacklinkBadge) {
+			const count = this.getBacklinkCount(file);
+			items.push({ cls: 'is-backlinks', text: `← ${count}`, label: t('badge.backlinks', { count }) });
+		}
+		if (!titleBar.isConnected) return;
+
+		if (!badges) {
+			badges = document.createElement('span');
+			badges.className = 'embedded-note-badges';
+			const titleText = titleBar.querySelector('.embedded-note-title-text');
+			if (titleText) {
+				titleText.after(badges);
+			} else {
+				titleBar.prepend(badges);
+			}
+		}
+		badges.replaceChildren(...items.map(({ cls, text, label }) => {
+			const badge = document.createElement('span');
+			badge.className = `embedded-note-badge ${cls}`;
+			badge.textContent = text;
+			badge.setAttribute('aria-label', label);
+			badge.setAttribute('title', label);
+			return badge;
+		}));
+	}
+
+	/** 链接或嵌入了该笔记的其他笔记数量 */
+	private getBacklinkCount(file: TFile): number {
+		if (!this.backlinkCounts) {
+			const counts = new Map<string, number>();
+			Object.entries(this.app.metadataCache.resolvedLinks).forEach(([source, links]) => {
+				Object.keys(links).forEach((target) => {
+					if (target !== source) counts.set(target, (counts.get(target) || 0) + 1);
+				});
+			});
+			this.backlinkCounts = counts;
+		}
+		return this.backlinkCounts.get(file.path) || 0;
+	}
+
+	/** 解析 frontmatter 中的布尔值（兼容 "true"/"false" 字符串），无法识别时返回 undefined */
+	private parseFrontmatterBoolean(value: unknown): boolean | undefined {
+		if (typeof value === 'boolean') return value;
+		if (typeof value === 'string') {
+			const normalized = value.trim().toLowerCase();
+			if (normalized === 'true') return true;
+			if (normalized === 'false') return false;
+		}
+		return undefined;
+	}
+
+	/**
+	 * 判断嵌入链接是否仍在输入中：链接无法解析，且宿主编辑器的光标位于未闭合的 ![[ 之内
+	 */
+	private isEmbedLinkBeingTyped(block: HTMLElement, fileName: string): boolean {
+		if (this.app.metadataCache.getFirstLinkpathDest(fileName, this.getBlockSourcePath(block))) return false;
+
+		const view = this.getHostMarkdownView(block);
+		if (!view || view.getMode() !== 'source') return false;
+		const editor = view.editor;
+		const cursor = editor.getCursor();
+		const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+		const openIndex = before.lastIndexOf('![[');
+		return openIndex >= 0 && openIndex > before.lastIndexOf(']]');
+	}
+
+	/**
+	 * 查找包含该嵌入块的 Markdown 视图
+	 */
+	private getHostMarkdownView(block: HTMLElement): MarkdownView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.containerEl.contains(block)) {
+				return view;
+			}
+		}
+		return null;
+	}
+
 	/**
 	 * 计算嵌套层级
 	 */
@@ -1448,10 +2065,18 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	/**
 	 * 创建标题栏元素
 	 */
-	private createTitleBar(fileName: string, blockId: string, nestLevel: number = 0): HTMLElement {
+	private createTitleBar(fileName: string, blockId: string, nestLevel: number = 0, linkSubpath: string = '', displayOptions: EmbedDisplayOptions = { editable: true, showTitleBar: true }): HTMLElement {
 		const titleBar = document.createElement('div');
 		titleBar.className = 'embedded-note-title-bar';
+		// 别名修饰符 notitle：保留标题栏以维持增强状态，但不显示
+		if (!displayOptions.showTitleBar) {
+			titleBar.classList.add('embedded-note-hidden');
+		}
 		titleBar.setAttribute('data-block-id', blockId);
+		// 无障碍：标题栏可通过键盘聚焦，作为折叠/展开按钮
+		titleBar.setAttribute('tabindex', '0');
+		titleBar.setAttribute('role', 'button');
+		titleBar.setAttribute('aria-expanded', 'true');
 		
 		// Font size is now controlled via CSS custom property set in addStyles()
 
@@ -1459,142 +2084,271 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 
 		// 创建标题文本
 		const titleText = document.createElement('span');
-		titleText.textContent = fileName;
+		// 章节/块嵌入同时显示子路径，便于区分同一笔记的不同片段；frontmatter 可指定自定义标题
+		titleText.textContent = displayOptions.title ?? fileName + linkSubpath;
 		titleText.className = 'embedded-note-title-text';
 		if (nestLevel > 0) {
 			titleText.classList.add('nested');
 		}
+		const titleLabel = titleText.textContent;
+		titleBar.setAttribute('aria-label', titleLabel);
 
-		// 创建折叠图标
+		// 创建折叠图标（装饰性，状态由 aria-expanded 表达）
 		const collapseIcon = document.createElement('span');
 		collapseIcon.className = 'embedded-note-collapse-icon';
-		collapseIcon.textContent = '▼';
-
-		// 创建编辑切换按钮
-		const editBtn = document.createElement('button');
-		editBtn.className = 'embedded-note-edit-btn';
-		editBtn.textContent = '编辑';
-		if (!this.settings.showEditButton) {
-			editBtn.classList.add('embedded-note-hidden');
-		}
-
-		// 创建跳转按钮
-		const jumpBtn = document.createElement('button');
-		jumpBtn.className = 'embedded-note-jump-btn';
-		jumpBtn.textContent = '跳转';
-		if (!this.settings.showJumpButton) {
-			jumpBtn.classList.add('embedded-note-hidden');
-		}
+		setIcon(collapseIcon, 'chevron-down');
+		collapseIcon.setAttribute('aria-hidden', 'true');
 
 		titleBar.appendChild(titleText);
 		// 非编辑状态且设置开启时才显示折叠图标
 		if (this.settings.showCollapseIcon && titleBar.getAttribute('data-editing') !== 'true') {
 			titleBar.appendChild(collapseIcon);
 		}
-		if (this.settings.showEditButton) {
-		titleBar.appendChild(editBtn);
-		}
-		if (this.settings.showJumpButton) {
-			titleBar.appendChild(jumpBtn);
-		}
+		// 目标笔记声明 embed-editable: false 时不提供编辑与历史版本
+		this.renderTitleBarActions(titleBar, fileName, displayOptions.editable);
 
 		// 移除鼠标事件处理，使用CSS hover效果
 
 		// 添加点击事件
 		const onTitleClick = (e: MouseEvent) => {
-			if ((e.target as HTMLElement).closest('.embedded-note-edit-btn') || 
-				(e.target as HTMLElement).closest('.embedded-note-jump-btn')) return;
+			if ((e.target as HTMLElement).closest('.embedded-note-action-btn')) return;
 			// 编辑状态下禁止折叠/展开
-			// 直接从DOM中查找块，不依赖于 embeddedBlocks 映射
-			const block = document.querySelector(`[data-block-id="${blockId}"]`) as HTMLElement;
+			// 直接从DOM中查找块，不依赖于 embeddedBlocks 映射（同一ID可能对应多个块）
+			const block = titleBar.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
 			if (block && block.getAttribute('data-editing') === 'true') return;
-			this.toggleBlockCollapse(blockId);
+			void this.toggleBlockCollapse(blockId);
 		};
 		this.addTrackedEventListener(titleBar, 'click', onTitleClick as EventListener);
 
-		// 编辑按钮切换原地编辑
-		const onEditClick = (e: MouseEvent) => {
-			e.stopPropagation();
-			// 直接从DOM中查找块，不依赖于 embeddedBlocks 映射
-			const block = document.querySelector(`[data-block-id="${blockId}"]`) as HTMLElement;
-			if (!block) return;
-			const embedContent = block.querySelector('.markdown-embed-content') as HTMLElement | null;
-			if (!embedContent) return;
-			const editing = block.getAttribute('data-editing') === 'true';
-			if (editing) {
-				this.log(`Disabling inline editing for block ${blockId}`);
-				// 若启用手动保存，关闭编辑前强制保存一次
-				if (this.settings.manualSaveOnly) {
-					const editor = embedContent.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
-					if (editor) {
-						this.saveEditorContent(editor, block);
-					}
-				}
-				this.disableInlineEditing(embedContent);
-				block.setAttribute('data-editing', 'false');
-				editBtn.textContent = '编辑';
-				// 退出编辑时恢复折叠图标显示（若设置允许）
-				const icon = titleBar.querySelector('.embedded-note-collapse-icon') as HTMLElement | null;
-				if (this.settings.showCollapseIcon) {
-					if (icon) {
-						icon.classList.remove('embedded-note-hidden');
-					} else {
-						const newIcon = document.createElement('span');
-						newIcon.className = 'embedded-note-collapse-icon';
-						newIcon.textContent = '▼';
-						titleBar.appendChild(newIcon);
-					}
-				}
-			} else {
-				this.log(`Enabling inline editing for block ${blockId}`);
-				
-				// 如果块处于折叠状态，先展开它
-				if (block.classList.contains('embedded-note-collapsed')) {
-					this.toggleBlockCollapse(blockId);
-					// 等待展开完成后再启用编辑
-					setTimeout(() => {
-						this.enableInlineEditing(block);
-						block.setAttribute('data-editing', 'true');
-						editBtn.textContent = '完成';
-						// 进入编辑时隐藏折叠图标
-						const icon = titleBar.querySelector('.embedded-note-collapse-icon') as HTMLElement | null;
-						if (icon) icon.classList.add('embedded-note-hidden');
-					}, 100); // 短暂延迟确保展开完成
-				} else {
-					// 如果已经展开，直接启用编辑
-				this.enableInlineEditing(block);
-				block.setAttribute('data-editing', 'true');
-				editBtn.textContent = '完成';
-				// 进入编辑时隐藏折叠图标
-				const icon = titleBar.querySelector('.embedded-note-collapse-icon') as HTMLElement | null;
-				if (icon) icon.classList.add('embedded-note-hidden');
-				}
+		// 键盘操作：Enter/Space 折叠或展开，上下方向键在相邻嵌入的标题栏之间移动焦点
+		const onTitleKeydown = (e: KeyboardEvent) => {
+			if (e.target !== titleBar || e.ctrlKey || e.metaKey || e.altKey) return;
+			if (e.key === 'Enter' || e.key === ' ') {
+				e.preventDefault();
+				e.stopPropagation();
+				const block = titleBar.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
+				if (block && block.getAttribute('data-editing') === 'true') return;
+				void this.toggleBlockCollapse(blockId);
+			} else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+				e.preventDefault();
+				e.stopPropagation();
+				this.focusAdjacentTitleBar(titleBar, e.key === 'ArrowDown' ? 1 : -1);
 			}
 		};
-		this.addTrackedEventListener(editBtn, 'click', onEditClick as EventListener);
+		this.addTrackedEventListener(titleBar, 'keydown', onTitleKeydown as EventListener);
 
-		// 跳转按钮点击事件
-		const onJumpClick = (e: MouseEvent) => {
+		return titleBar;
+	}
+
+	/**
+	 * 按设置的顺序生成标题栏操作：位置为 bar 的显示为图标按钮，位置为 menu 的收进末尾的"…"菜单。
+	 * 重新生成时先移除已有的操作按钮
+	 */
+	private renderTitleBarActions(titleBar: HTMLElement, fileName: string, editable: boolean) {
+		// 重新渲染前移除旧按钮及其登记的监听器
+		titleBar.querySelectorAll('.embedded-note-action-btn').forEach((el) => {
+			this.removeTrackedEventListenersForRoot(el as HTMLElement);
+			el.remove();
+		});
+		const title = titleBar.querySelector('.embedded-note-title-text')?.textContent || fileName;
+		const editing = titleBar.closest('.markdown-embed, .internal-embed')?.getAttribute('data-editing') === 'true';
+		// 历史版本只来自原地编辑，不可编辑的嵌入不提供
+		const actions = this.settings.titleBarActions.filter(({ action }) => editable || action === 'jump');
+
+		actions.filter(({ placement }) => placement === 'bar').forEach(({ action }) => {
+			const button = document.createElement('button');
+			button.className = `embedded-note-action-btn embedded-note-${action}-btn`;
+			setIcon(button, TITLE_BAR_ACTION_ICONS[action]);
+			button.setAttribute('aria-label', this.getTitleBarActionLabel(action, title, editing));
+			if (action === 'edit') {
+				button.setAttribute('aria-pressed', String(editing));
+				if (editing) setIcon(button, 'check');
+			} else if (action === 'history') {
+				button.setAttribute('aria-haspopup', 'menu');
+			}
+			const onActionClick = (e: MouseEvent) => {
+				e.stopPropagation();
+				this.runTitleBarAction(titleBar, fileName, action, e);
+			};
+			this.addTrackedEventListener(button, 'click', onActionClick as EventListener);
+			titleBar.appendChild(button);
+		});
+
+		const overflow = actions.filter(({ placement }) => placement === 'menu').map(({ action }) => action);
+		if (overflow.length === 0) return;
+		const moreBtn = document.createElement('button');
+		moreBtn.className = 'embedded-note-action-btn embedded-note-more-btn';
+		setIcon(moreBtn, 'more-horizontal');
+		moreBtn.setAttribute('aria-label', t('titleBar.more'));
+		moreBtn.setAttribute('aria-haspopup', 'menu');
+		const onMoreClick = (e: MouseEvent) => {
 			e.stopPropagation();
-			this.jumpToFile(fileName);
+			const block = titleBar.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
+			const isEditing = block?.getAttribute('data-editing') === 'true';
+			const file = block ? this.resolveLinkedFile(block) : null;
+			const menu = new Menu();
+			overflow.forEach((action) => menu.addItem((item) => {
+				item.setTitle(this.getTitleBarActionLabel(action, '', isEditing))
+					.setIcon(action === 'edit' && isEditing ? 'check' : TITLE_BAR_ACTION_ICONS[action])
+					.onClick(() => this.runTitleBarAction(titleBar, fileName, action, e));
+				// 与编辑按钮一致：锁定的笔记不能进入编辑
+				if (action === 'edit' && !isEditing && file && this.isFileLocked(file)) item.setDisabled(true);
+			}));
+			menu.showAtMouseEvent(e);
 		};
-		this.addTrackedEventListener(jumpBtn, 'click', onJumpClick as EventListener);
+		this.addTrackedEventListener(moreBtn, 'click', onMoreClick as EventListener);
+		titleBar.appendChild(moreBtn);
+	}
 
-		return titleBar;
+	/**
+	 * 标题栏操作的文本：按钮的提示与屏幕阅读器标签包含标题，菜单项（title 为空）只显示操作名
+	 */
+	private getTitleBarActionLabel(action: TitleBarAction, title: string, editing: boolean): string {
+		switch (action) {
+			case 'edit':
+				if (editing) return title ? t('titleBar.doneLabel', { title }) : t('titleBar.done');
+				return title ? t('titleBar.editLabel', { title }) : t('titleBar.edit');
+			case 'history':
+				return title ? t('titleBar.historyLabel', { title }) : t('titleBar.history');
+			case 'jump':
+				return title ? t('titleBar.jumpLabel', { title }) : t('titleBar.jump');
+		}
+	}
+
+	/** 执行标题栏操作，按钮与"…"菜单共用 */
+	private runTitleBarAction(titleBar: HTMLElement, fileName: string, action: TitleBarAction, evt: MouseEvent) {
+		// 直接从DOM中查找块，不依赖于 embeddedBlocks 映射（同一ID可能对应多个块）
+		const block = titleBar.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
+		switch (action) {
+			case 'edit':
+				if (!block) return;
+				if (block.getAttribute('data-editing') === 'true') {
+					void this.finishInlineEditing(block);
+				} else {
+					void this.startInlineEditing(block);
+				}
+				break;
+			case 'history':
+				if (block) void this.openHistoryMenu(block, evt);
+				break;
+			case 'jump':
+				this.jumpToFile(fileName, block ? this.getBlockSourcePath(block) : '');
+				break;
+		}
+	}
+
+	/** 设置变化后按新的顺序与位置重建标题栏操作 */
+	public refreshTitleBarActions(block: HTMLElement) {
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const fileName = block.getAttribute('data-file-link');
+		if (!titleBar || !fileName) return;
+		this.renderTitleBarActions(titleBar, fileName, block.getAttribute('data-editable') !== 'false');
+		this.updateLockState(block);
+	}
+
+	/** 同步编辑按钮的图标与标签：编辑中显示"完成" */
+	private updateEditButton(block: HTMLElement, editing: boolean) {
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const editBtn = titleBar?.querySelector('.embedded-note-edit-btn') as HTMLElement | null;
+		if (!titleBar || !editBtn) return;
+		const title = titleBar.querySelector('.embedded-note-title-text')?.textContent || '';
+		setIcon(editBtn, editing ? 'check' : TITLE_BAR_ACTION_ICONS.edit);
+		editBtn.setAttribute('aria-label', this.getTitleBarActionLabel('edit', title, editing));
+		editBtn.setAttribute('aria-pressed', String(editing));
+	}
+
+	/**
+	 * 进入原地编辑：折叠时先展开，并同步标题栏的按钮文本与折叠图标
+	 */
+	private async startInlineEditing(block: HTMLElement) {
+		const blockId = block.getAttribute('data-block-id');
+		if (!blockId || block.getAttribute('data-editable') === 'false') return;
+		const embedContent = block.querySelector('.markdown-embed-content') as HTMLElement | null;
+		if (!embedContent) return;
+		const lockedFile = this.resolveLinkedFile(block);
+		if (lockedFile && this.isFileLocked(lockedFile)) {
+			new Notice(t('notice.lockedEdit', { name: lockedFile.basename }));
+			return;
+		}
+		this.log(`Enabling inline editing for block ${blockId}`);
+
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		const enterEditing = () => {
+			this.enableInlineEditing(block);
+			block.setAttribute('data-editing', 'true');
+			this.updateEditButton(block, true);
+			// 进入编辑时隐藏折叠图标
+			const icon = titleBar?.querySelector('.embedded-note-collapse-icon') as HTMLElement | null;
+			if (icon) icon.classList.add('embedded-note-hidden');
+		};
+
+		// 如果块处于折叠状态，先展开它；展开未完成（如期间被再次折叠）时不进入编辑
+		if (block.classList.contains('embedded-note-collapsed')) {
+			await this.toggleBlockCollapse(blockId);
+			if (block.classList.contains('embedded-note-collapsed')) return;
+		}
+		enterEditing();
+	}
+
+	/**
+	 * 结束原地编辑：有未保存的修改时先保存，保存完成后才关闭编辑器；
+	 * 保存未成功（合并取消、写入失败等）时保持编辑状态，修改仍留在编辑器中
+	 */
+	private async finishInlineEditing(block: HTMLElement) {
+		const embedContent = block.querySelector('.markdown-embed-content') as HTMLElement | null;
+		if (!embedContent) return;
+		this.log(`Disabling inline editing for block ${block.getAttribute('data-block-id')}`);
+		const editor = this.inlineEditors.get(block);
+		if (editor && this.isEditorDirty(block, editor)) {
+			this.clearAutoSave(block);
+			if (!(await this.saveEditorContent(editor, block))) return;
+		}
+		this.disableInlineEditing(embedContent);
+		this.leaveEditingState(block);
+	}
+
+	/** 退出编辑状态：恢复标题栏的按钮文本、锁标记与折叠图标 */
+	private leaveEditingState(block: HTMLElement) {
+		block.setAttribute('data-editing', 'false');
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		if (!titleBar) return;
+		this.updateEditButton(block, false);
+		// 编辑期间笔记可能被锁定
+		this.updateLockState(block);
+		// 退出编辑时恢复折叠图标显示（若设置允许）
+		const icon = titleBar.querySelector('.embedded-note-collapse-icon') as HTMLElement | null;
+		if (this.settings.showCollapseIcon) {
+			if (icon) {
+				icon.classList.remove('embedded-note-hidden');
+			} else {
+				const newIcon = document.createElement('span');
+				newIcon.className = 'embedded-note-collapse-icon';
+				setIcon(newIcon, 'chevron-down');
+				newIcon.setAttribute('aria-hidden', 'true');
+				titleBar.appendChild(newIcon);
+			}
+		}
+	}
+
+	/**
+	 * 将焦点移到同一视图中相邻的可见标题栏
+	 * @param direction 1 为下一个，-1 为上一个
+	 */
+	private focusAdjacentTitleBar(titleBar: HTMLElement, direction: number) {
+		const scope = titleBar.closest('.markdown-preview-view, .cm-editor, .workspace-leaf-content') || document.body;
+		const titleBars = (Array.from(scope.querySelectorAll('.embedded-note-title-bar')) as HTMLElement[])
+			.filter((el) => el === titleBar || (el.offsetParent !== null && !el.classList.contains('embedded-note-hidden')));
+		const next = titleBars[titleBars.indexOf(titleBar) + direction];
+		if (next) next.focus();
 	}
 
 	/**
 	 * 跳转到指定文件
+	 * @param sourcePath 嵌入块宿主笔记的路径，用于解析同名链接
 	 */
-	private jumpToFile(fileName: string) {
+	private jumpToFile(fileName: string, sourcePath: string = '') {
 		try {
-			const activeFile = this.app.workspace.getActiveFile();
-			let file = this.app.metadataCache.getFirstLinkpathDest(fileName, activeFile?.path || '');
-			if (!file) {
-				const direct = this.app.vault.getAbstractFileByPath(fileName);
-				const withMd = this.app.vault.getAbstractFileByPath(`${fileName}.md`);
-				file = (direct instanceof TFile ? direct : null) || (withMd instanceof TFile ? withMd : null);
-			}
+			const file = this.resolveFileLink(fileName, sourcePath || this.app.workspace.getActiveFile()?.path || '');
 			
 			if (file) {
 				if (this.settings.jumpInNewTab) {
@@ -1624,30 +2378,42 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	}
 
 	/**
-	 * 切换块的折叠状态
+	 * 切换块的折叠状态。失败时只记录错误，调用方无需处理返回的 Promise
 	 */
-	private toggleBlockCollapse(blockId: string) {
-		// 不依赖于 embeddedBlocks 映射，直接从DOM中查找
-		const block = document.querySelector(`[data-block-id="${blockId}"]`) as HTMLElement;
-		if (!block) {
+	private async toggleBlockCollapse(blockId: string) {
+		try {
+			await this.applyBlockCollapseToggle(blockId);
+		} catch (error) {
+			this.error(`Failed to toggle collapse for ${blockId}:`, error);
+		}
+	}
+
+	private async applyBlockCollapseToggle(blockId: string) {
+		// 不依赖于 embeddedBlocks 映射，直接从DOM中查找；
+		// 同一笔记在多个窗格中打开时，相同ID的块共享折叠状态
+		const blocks = Array.from(document.querySelectorAll(`.markdown-embed[data-block-id="${blockId}"], .internal-embed[data-block-id="${blockId}"]`)) as HTMLElement[];
+		if (blocks.length === 0) {
 			this.log(`Block not found for blockId: ${blockId}`);
 			return;
 		}
 		
 		// 调试信息：显示找到的块的信息
-		const fileName = block.getAttribute('data-file-link') || 'unknown';
-		const nestLevel = block.getAttribute('data-nest-level') || 'unknown';
+		const fileName = blocks[0].getAttribute('data-file-link') || 'unknown';
+		const nestLevel = blocks[0].getAttribute('data-nest-level') || 'unknown';
 		this.log(`Toggling collapse for blockId: ${blockId}, fileName: ${fileName}, nestLevel: ${nestLevel}`);
 
-		const isCurrentlyCollapsed = this.collapseStates.get(blockId) || false;
+		// 以页面上的实际状态为准（初始状态可能来自 frontmatter 或别名修饰符，而非已保存的状态）
+		const isCurrentlyCollapsed = blocks[0].classList.contains('embedded-note-collapsed');
 		const newState = !isCurrentlyCollapsed;
+
+		// 折叠会关闭编辑器，先处理未保存的修改
+		if (newState && !(await this.confirmPendingEdits(blocks))) return;
 		
 		this.collapseStates.set(blockId, newState);
+		blocks.forEach((block) => this.setBlockCollapsed(block, newState));
 		// 同时保存到设置中
 		this.settings.collapseStates[blockId] = newState;
-		this.saveSettings();
-		
-		this.setBlockCollapsed(block, newState);
+		await this.saveSettings();
 	}
 
 	/**
@@ -1660,6 +2426,8 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		// 移除未使用的变量
 		// 移除未使用的变量
 		const embedContent = this.getEmbedContent(block) as HTMLElement;
+		const titleBar = block.querySelector('.embedded-note-title-bar');
+		if (titleBar) titleBar.setAttribute('aria-expanded', String(!collapsed));
 
 		if (collapsed) {
 			// Mark container as collapsed so CSS can hide everything except the title bar
@@ -1696,16 +2464,16 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				this.log(`Removed file from editing set: ${file.path}`);
 				this.log(`Current editing files: ${Array.from(this.editingFiles)}`);
 			}
+			// 片段编辑会话保留到下次进入编辑时替换，关闭前触发的保存仍需按片段写回
 		}
 
-		// 兼容 contentEditable 与 textarea 两种模式
+		// 兼容 contentEditable 与编辑器两种模式
 		embedContent.contentEditable = 'false';
 		embedContent.removeAttribute('data-editable');
 		
-		const editor = embedContent.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
+		const editor = block ? this.inlineEditors.get(block) : undefined;
         const originalContainer = embedContent.querySelector('.embedded-note-original') as HTMLElement | null;
 		const preview = embedContent.querySelector('.embedded-note-preview') as HTMLElement | null;
-        if (editor) editor.remove();
 		if (preview) preview.remove();
         if (originalContainer) {
             // 将 originalContainer 的内容移回到 embedContent，并移除 originalContainer
@@ -1715,12 +2483,15 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
                 embedContent.insertBefore(child, originalContainer);
             });
             originalContainer.remove();
-        } else if (editor) {
-			// 兜底：若无原始容器，则将编辑器置为只读
-			editor.readOnly = true;
-			editor.disabled = true;
-			editor.classList.add('embedded-note-editor-disabled');
-			editor.oninput = null;
+        }
+        if (block && editor) {
+			if (originalContainer) {
+				this.destroyInlineEditor(block);
+			} else {
+				// 兜底：若无原始容器，则将编辑器置为只读，保留内容可见
+				editor.view.dispatch({ effects: StateEffect.appendConfig.of(EditorView.editable.of(false)) });
+				editor.containerEl.classList.add('embedded-note-editor-disabled');
+			}
 		}
 
 		// 移除直接样式设置
@@ -1744,79 +2515,41 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	 * 处理文件修改事件
 	 */
 	private handleFileModify(file: TFile) {
-		// 清除文件缓存，因为文件已被修改
-		this.clearFileCache(file.path);
-		
+		// 徽章只更新标题栏，编辑中也照常刷新
+		this.getEnhancedBlocks()
+			.filter((block) => this.resolveLinkedFile(block)?.path === file.path)
+			.forEach((block) => void this.updateBadges(block));
+
 		// 如果文件正在编辑中，跳过处理以避免重新渲染导致新窗口打开
 		if (this.editingFiles.has(file.path)) {
 			this.log(`Skipping file modify for editing file: ${file.basename}`);
 			return;
 		}
-		// 若任意嵌入编辑器存在，跳过
-		if (document.querySelector('textarea.embedded-note-editor')) {
-			this.logOnce('skip-modify-during-edit', 'Skip file modify: editor active');
-			return;
-		}
-		
-		// 检查是否在我们的编辑器中编辑，如果是则延迟处理
-		const activeElement = document.activeElement as HTMLElement;
-		const isInOurEditor = activeElement && activeElement.closest('.embedded-note-editor');
 		
-		// 如果在我们的编辑器中编辑，延迟处理
-		const delay = isInOurEditor ? 500 : 200;
-		
-		setTimeout(() => {
-			this.handleFileModifyDelayed(file);
-		}, delay);
+		this.revalidateEmbedsOf(file);
 	}
 
 	/**
 	 * 处理文件保存事件
 	 */
 	private handleFileSave(file: TFile) {
-		// 清除文件缓存，因为文件已被保存（可能内容有变化）
-		this.clearFileCache(file.path);
-		
 		// 如果文件正在编辑中，跳过处理以避免重新渲染导致新窗口打开
 		if (this.editingFiles.has(file.path)) {
 			this.log(`Skipping file save for editing file: ${file.basename}`);
 			return;
 		}
-		// 若任意嵌入编辑器存在，跳过
-		if (document.querySelector('textarea.embedded-note-editor')) {
-			this.logOnce('skip-save-during-edit', 'Skip file save: editor active');
-			return;
-		}
 
-		// const fileName = file.basename;
-		// console.log(`[EmbeddedNoteEnhancer] File saved: ${fileName}`);
-		
-		// 文件保存后，延迟处理以确保DOM完全更新
-		setTimeout(() => {
-			this.handleFileModifyDelayed(file);
-		}, 300);
-		
-		// 再次延迟处理，确保嵌套嵌入被正确处理
-		setTimeout(() => {
-			this.reprocessAllNestedEmbeds();
-		}, 600);
+		this.revalidateEmbedsOf(file);
 	}
 
 	/**
-	 * 延迟的文件修改处理
+	 * 重新检查引用了指定文件的嵌入块，目标已无法解析时撤销增强
 	 */
-	private handleFileModifyDelayed(file: TFile) {
-		// 如果文件正在编辑中，跳过处理以避免重新渲染导致新窗口打开
-		if (this.editingFiles.has(file.path)) {
-			this.log(`Skipping delayed file modify for editing file: ${file.basename}`);
-			return;
-		}
-
+	private revalidateEmbedsOf(file: TFile) {
 		const fileName = file.basename;
 		const filePath = file.path;
-		// console.log(`[EmbeddedNoteEnhancer] Processing delayed file modification for: ${fileName} (${filePath})`);
 		
-		this.embeddedBlocks.forEach((block) => {
+		this.getEnhancedBlocks().forEach((block) => {
 			// 获取嵌入块引用的文件路径
 			const blockFileLink = block.getAttribute('data-file-link');
 			if (!blockFileLink) return;
@@ -1830,272 +2563,508 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				return;
 			}
 			
-			// 只有当前嵌入块引用的文件就是被修改的文件时，才重新处理
-			if (blockReferencedFile.path === filePath) {
-				this.log(`Found block referencing modified file ${fileName}`);
-				// 重新评估：若文件已不存在，撤销增强；否则维持现状
-				const exists = this.checkEmbedFileExists(block);
-				if (!exists) {
-					this.warn(`File no longer exists, removing enhancement: ${fileName}`);
-					this.removeEnhancement(block);
-				} else {
-					this.log(`File still exists, maintaining current state: ${fileName}`);
-					// 文件存在时不需要重新处理，保持当前状态即可
-				}
+			// 只有当前嵌入块引用的文件就是被修改的文件时，才重新评估
+			if (blockReferencedFile.path === filePath && !this.checkEmbedFileExists(block)) {
+				this.warn(`File no longer exists, removing enhancement: ${fileName}`);
+				this.removeEnhancement(block);
 			}
 		});
-		
-		// 重新处理所有嵌套嵌入并刷新层级，确保编辑保存后嵌套感保持
-		this.reprocessAllNestedEmbeds();
-		this.refreshAllNestLevels();
 	}
 
 	/**
-	 * 重新处理所有嵌套嵌入
+	 * 同一笔记的多个嵌入之间同步内容：其他原地编辑器合并新内容（正在编辑的保留光标与焦点），
+	 * 由原地编辑保存引起的变化还会重新渲染只读的嵌入
 	 */
-	private reprocessAllNestedEmbeds() {
-		// 检查是否有文件正在编辑中，如果有则跳过重新处理
-		if (this.editingFiles.size > 0 || document.querySelector('[data-freeze="true"]') || document.querySelector('textarea.embedded-note-editor')) {
-		this.log(`Skipping reprocessAllNestedEmbeds due to editing files: ${Array.from(this.editingFiles)}`);
-			return;
+	private async syncEmbedsOf(file: TFile, content: string) {
+		const refreshReadOnly = this.filesToSync.delete(file.path);
+		const blocks = this.getEnhancedBlocks().filter((block) => this.resolveLinkedFile(block)?.path === file.path);
+		for (const block of blocks) {
+			// 标题可能来自 frontmatter 或一级标题，标签徽章来自元数据
+			this.refreshTitleText(block);
+			void this.updateBadges(block);
+			this.updateLockState(block);
+			const editor = this.inlineEditors.get(block);
+			if (editor) {
+				this.syncEditorWith(file, block, editor, content);
+			} else if (refreshReadOnly) {
+				await this.refreshEmbedContent(block, file, content);
+			} else {
+				// 其他来源的修改由 Obsidian 重新渲染其嵌入内容
+				this.clearRefreshedContent(block);
+			}
 		}
-		
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) return;
-		
-		const file = activeView.file;
-		if (!file) return;
-		
-		// 检查是否需要重新处理（基于缓存）
-		if (!this.shouldReprocessNestedEmbeds(file.path)) {
+	}
+
+	/**
+	 * 将文件的新内容合并进编辑器：没有本地修改时直接更新；
+	 * 有修改且互不冲突时自动合并；有冲突时仅提示，留待保存时在合并对话框中处理
+	 */
+	private syncEditorWith(file: TFile, block: HTMLElement, editor: InlineEditor, content: string) {
+		const baseline = this.editBaselines.get(block);
+		const hash = this.simpleHash(content);
+		// 该编辑器自己保存的内容，或合并对话框正在处理
+		if (!baseline || baseline.hash === hash || this.mergingBlocks.has(block)) return;
+		const theirs = this.getEditableText(block, file, content);
+		if (theirs === null) return;
+		const mine = editor.view.state.doc.toString();
+		if (theirs === baseline.base || theirs === mine) {
+			this.syncConflictBlocks.delete(block);
+			this.editBaselines.set(block, { base: theirs, hash, mtime: file.stat.mtime });
+			this.updateDirtyIndicator(block);
 			return;
 		}
 
-		this.logOnce('reprocess-nested', 'Reprocessing all nested embeds after file modification');
-		
-		const container = activeView.contentEl;
-		if (!container) return;
-		
-		// 查找所有可能的嵌入块
-		const allEmbeds = container.querySelectorAll('.markdown-embed, .internal-embed, [data-type="markdown-embed"]');
-		
-		let reprocessedCount = 0;
-		let imageEmbedCount = 0;
-		
-		allEmbeds.forEach((embedBlock) => {
-			// 检查是否为图片嵌入，如果是则跳过处理
-			if (this.isImageEmbed(embedBlock as HTMLElement)) {
-				imageEmbedCount++;
-				this.log(`Skipping reprocess of image embed`);
-				return;
+		const chunks = mergeLines(baseline.base.split('\n'), mine.split('\n'), theirs.split('\n'));
+		if (chunks.some((chunk) => chunk.type === 'conflict')) {
+			// 自动保存期间会不断收到变化事件，同一冲突只提示一次
+			if (!this.syncConflictBlocks.has(block)) {
+				this.syncConflictBlocks.add(block);
+				new Notice(t('notice.syncConflict', { name: file.basename }));
 			}
-			
-			// 检查是否为PDF嵌入，如果是则跳过处理
-			if (this.isPdfEmbed(embedBlock as HTMLElement)) {
-				this.log(`Skipping reprocess of PDF embed`);
-				return;
+			return;
+		}
+		this.syncConflictBlocks.delete(block);
+		const dirty = mine !== baseline.base;
+		// 先更新基准，编辑器变化触发的自动保存才能正确判断是否还有本地修改
+		this.editBaselines.set(block, { base: theirs, hash, mtime: file.stat.mtime });
+		replaceEditorText(editor.view, chunks.map((chunk) => chunk.type === 'resolved' ? chunk.lines.join('\n') : '').join('\n'));
+		this.updateDirtyIndicator(block);
+		if (dirty) new Notice(t('notice.syncMerged', { name: file.basename }));
+	}
+
+	/**
+	 * 以最新内容重新渲染只读嵌入块：整篇嵌入不含属性，章节/块嵌入只渲染对应片段。
+	 * 渲染到插件自己的容器中，Obsidian 管理的内容只隐藏不替换
+	 */
+	private async refreshEmbedContent(block: HTMLElement, file: TFile, content: string) {
+		const embedContent = this.getEmbedContent(block);
+		if (!embedContent) return;
+		const subpath = block.getAttribute('data-link-subpath') || '';
+		let text: string;
+		if (subpath) {
+			const range = this.resolveSubpathRange(file, content, subpath);
+			if (!range) return;
+			text = content.slice(range.start, range.end);
+		} else {
+			text = content.slice(Math.max(this.findFrontmatterEnd(file, content), content.startsWith('\uFEFF') ? 1 : 0));
+		}
+
+		const component = new Component();
+		component.load();
+		const rendered = document.createElement('div');
+		rendered.className = 'markdown-preview-view markdown-rendered';
+		try {
+			await MarkdownRenderer.render(this.app, text, rendered, file.path, component);
+		} catch (error) {
+			this.warn(`Failed to refresh embed of ${file.path}`, error);
+			component.unload();
+			return;
+		}
+		// 渲染期间进入了编辑或已被移除
+		if (this.inlineEditors.has(block) || !block.isConnected) {
+			component.unload();
+			return;
+		}
+		this.refreshComponents.get(block)?.unload();
+		this.refreshComponents.set(block, component);
+		let container = embedContent.querySelector(':scope > .embedded-note-synced') as HTMLElement | null;
+		if (!container) {
+			container = embedContent.createDiv({ cls: 'embedded-note-synced' });
+		}
+		container.replaceChildren(rendered);
+		embedContent.classList.add('embedded-note-synced-content');
+	}
+
+	/** 移除同步刷新渲染的内容，恢复显示 Obsidian 自身的嵌入内容 */
+	private clearRefreshedContent(block: HTMLElement) {
+		this.refreshComponents.get(block)?.unload();
+		this.refreshComponents.delete(block);
+		const embedContent = this.getEmbedContent(block);
+		if (!embedContent) return;
+		embedContent.classList.remove('embedded-note-synced-content');
+		embedContent.querySelector(':scope > .embedded-note-synced')?.remove();
+	}
+
+	/**
+	 * 将文件内容拆分为编辑器不展示的前缀与正文。
+	 * 前缀包含 BOM；隐藏属性时还包含 frontmatter 及其后的空行，保存时原样保留
+	 */
+	private splitFileContent(file: TFile, content: string): { prefix: string; body: string } {
+		let end = content.startsWith('\uFEFF') ? 1 : 0;
+		if (!this.settings.showPropertiesInEdit) {
+			const frontmatterEnd = this.findFrontmatterEnd(file, content);
+			if (frontmatterEnd > 0) {
+				end = frontmatterEnd + (content.slice(frontmatterEnd).match(/^(?:\r?\n)*/)?.[0].length ?? 0);
 			}
-			
-			// 检查是否已经处理过
-			if (!embedBlock.hasAttribute('data-title-bar-added')) {
-				this.log(`Reprocessing unprocessed embed`);
-				this.processEmbeddedBlock(embedBlock as HTMLElement);
-				reprocessedCount++;
-			} else {
-				this.log(`Embed already processed, skipping`);
+		}
+		return { prefix: content.slice(0, end), body: content.slice(end) };
+	}
+
+	/**
+	 * 返回 frontmatter 结束标记 --- 之后的偏移，没有 frontmatter 时返回 -1。
+	 * 优先使用 metadataCache 记录的位置；缓存落后于内容时按文件开头的 --- 块解析，
+	 * 正文代码块中的 --- 不会被误认
+	 */
+	private findFrontmatterEnd(file: TFile, content: string): number {
+		const position = this.app.metadataCache.getFileCache(file)?.frontmatterPosition;
+		if (position) {
+			const leading = content.slice(0, position.start.offset);
+			const block = content.slice(position.start.offset, position.end.offset);
+			if ((leading === '' || leading === '\uFEFF') && /^---[ \t]*\r?\n/.test(block) && /(^|\n)---[ \t]*$/.test(block)) {
+				return position.end.offset;
 			}
-		});
-		
-		// 缓存文件的嵌入结构信息
-		this.cacheFileEmbedStructure(file.path, allEmbeds.length, imageEmbedCount > 0);
-		
-		this.log(`Reprocessed ${reprocessedCount} nested embeds, found ${imageEmbedCount} image embeds`);
-		
-		// 如果发现了新的嵌入块，再次递归处理
-		if (reprocessedCount > 0) {
-			setTimeout(() => {
-				this.processNestedEmbeds(container, 0);
-			}, 100);
-			
-			// 再次延迟处理，确保所有嵌套嵌入都被正确处理
-			setTimeout(() => {
-				this.processAllNestedEmbeds(container);
-			}, 300);
 		}
+		const match = content.match(/^\uFEFF?---[ \t]*\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?=\r?\n|$)/);
+		return match ? match[0].length : -1;
+	}
+
+	/** 将编辑器文本（LF）转换为指定的换行符 */
+	private toLineEnding(text: string, eol: string): string {
+		return eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
 	}
 
 	/**
-	 * 刷新嵌入内容
+	 * 替换位置所用的换行符：取该位置之后（即被替换范围内或其后）最近的换行，其后没有时取其前最近的换行。
+	 * 只据此转换替换的部分，混用换行符的文件在替换范围外保持原样
 	 */
-// 刷新逻辑已移除，依赖 Obsidian 自动更新嵌入内容
+	private lineEndingAt(data: string, start: number): string {
+		const eolAt = (index: number) => index > 0 && data[index - 1] === '\r' ? '\r\n' : '\n';
+		const next = data.indexOf('\n', start);
+		if (next >= 0) return eolAt(next);
+		const previous = data.lastIndexOf('\n', start - 1);
+		return previous >= 0 ? eolAt(previous) : '\n';
+	}
 
 	/**
-	 * 从文本中提取 frontmatter（YAML 属性）
+	 * 用编辑器文本替换文件正文，保留前缀（BOM、隐藏的 frontmatter）、换行符及末尾是否有换行
 	 */
-	private extractFrontmatter(content: string): string | null {
-		// 检查是否以 --- 开头（frontmatter 标记）
-		if (!content.trimStart().startsWith('---')) {
-			return null;
+	private composeFileContent(file: TFile, data: string, text: string): string {
+		const { prefix } = this.splitFileContent(file, data);
+		const eol = this.lineEndingAt(data, prefix.length);
+		let body = this.toLineEnding(text, eol);
+		if (body) {
+			// 只有 frontmatter、其后没有换行的文件，正文需另起一行
+			if (/---[ \t]*$/.test(prefix)) body = eol + body;
+			const hadTrailingNewline = data.endsWith('\n');
+			if (hadTrailingNewline && !body.endsWith('\n')) {
+				body += eol;
+			} else if (!hadTrailingNewline && body.endsWith(eol)) {
+				body = body.slice(0, -eol.length);
+			}
 		}
-		
-		// 查找第二个 --- 的位置
-		const lines = content.split('\n');
-		let endIndex = -1;
-		let startFound = false;
-		
-		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i].trim();
-			if (trimmed === '---') {
-				if (!startFound) {
-					startFound = true;
+		return prefix + body;
+	}
+
+	/**
+	 * 启用原地编辑功能。章节嵌入无法定位对应片段时拒绝编辑，不退回编辑整个文件，
+	 * 此时退出编辑状态并返回 false
+	 */
+    public async enableInlineEditing(block: HTMLElement): Promise<boolean> {
+		const embedContent = this.getEmbedContent(block) as HTMLElement;
+		if (!embedContent) return false;
+
+		// 锁定的笔记不创建编辑器
+		const file = this.resolveLinkedFile(block);
+		if (file && this.isFileLocked(file)) return false;
+
+		// 标记文件为编辑状态
+		if (file) {
+			this.editingFiles.add(file.path);
+			this.log(`Added file to editing set: ${file.path}`);
+			this.log(`Current editing files: ${Array.from(this.editingFiles)}`);
+		}
+
+		// 已有编辑器时不重复创建
+		if (this.inlineEditors.has(block)) return true;
+
+		// 初始值使用源文件内容，而不是渲染后的文本，避免把提示或其他 DOM 写入文件
+		let content = embedContent.textContent || '';
+		if (file) {
+			const subpath = block.getAttribute('data-link-subpath') || '';
+			let located = !subpath;
+			try {
+				const raw = await this.app.vault.read(file);
+				// 章节嵌入：只加载对应片段，保存时再拼回原位置
+				const session = this.createEditSession(block, file, raw);
+				if (session) {
+					this.editSessions.set(block, session);
+					located = true;
 				} else {
-					endIndex = i;
-					break;
+					this.editSessions.delete(block);
 				}
+				// 根据设置决定是否显示属性
+				content = this.getEditableText(block, file, raw) ?? raw;
+				this.editBaselines.set(block, { base: content, hash: this.simpleHash(raw), mtime: file.stat.mtime });
+			} catch {}
+			if (!located) {
+				new Notice(t('notice.sectionNotFound', { section: subpath, name: file.basename }));
+				this.editingFiles.delete(file.path);
+				this.leaveEditingState(block);
+				return false;
 			}
 		}
-		
-		// 如果找到了完整的 frontmatter，返回它
-		if (endIndex > 0) {
-			return lines.slice(0, endIndex + 1).join('\n');
+		// 读取文件期间可能已由其他调用创建了编辑器
+		if (this.inlineEditors.has(block)) return true;
+		// 编辑器按文件内容载入，不再需要同步刷新渲染的内容
+		this.clearRefreshedContent(block);
+
+		// 将现有内容移入隐藏容器，供关闭时还原
+		let originalContainer = embedContent.querySelector('.embedded-note-original') as HTMLElement | null;
+		if (!originalContainer) {
+			originalContainer = document.createElement('div');
+			originalContainer.className = 'embedded-note-original';
+			while (embedContent.firstChild) {
+				originalContainer.appendChild(embedContent.firstChild);
+			}
+			embedContent.appendChild(originalContainer);
 		}
-		
-		return null;
+		originalContainer.classList.add('embedded-note-original-hidden');
+
+		// 插入编辑器（保留 originalContainer）
+		const editor = createInlineEditor(this.app, embedContent, file, content, {
+			onChange: () => {
+				this.updateDirtyIndicator(block);
+				this.scheduleEditPreview(block);
+				if (this.settings.manualSaveOnly) return;
+				this.clearAutoSave(block);
+				const delay = Math.max(0, this.settings.autoSaveDelay || 1000);
+				this.autoSaveTimers.set(block, window.setTimeout(() => {
+					this.autoSaveTimers.delete(block);
+					this.saveEditorContent(editor, block);
+				}, delay));
+			},
+			onBlur: () => {
+				if (this.settings.manualSaveOnly) return;
+				this.clearAutoSave(block);
+				this.saveEditorContent(editor, block);
+			},
+			onSave: () => {
+				this.clearAutoSave(block);
+				this.saveEditorContent(editor, block);
+			}
+		}, (message, ...args) => this.warn(message, ...args));
+		this.inlineEditors.set(block, editor);
+		this.isolateEditorEvents(editor.containerEl);
+		if (this.settings.livePreviewEnabled) {
+			this.attachEditPreview(block);
+		}
+
+		// 冻结该块，避免在编辑期间被任何流程重新处理
+		block.setAttribute('data-freeze', 'true');
+		if (this.debugVerbose) console.debug('[EmbeddedNoteEnhancer] freeze on', block.getAttribute('data-block-id'));
+        // 不做额外渲染，维持单窗口体验
+		return true;
+	}
+
+	/** 销毁嵌入块上的原地编辑器，尚未触发的自动保存立即执行 */
+	private destroyInlineEditor(block: HTMLElement) {
+		const editor = this.inlineEditors.get(block);
+		if (!editor) return;
+		if (this.autoSaveTimers.has(block)) {
+			this.clearAutoSave(block);
+			void this.saveEditorContent(editor, block);
+		}
+		this.detachEditPreview(block);
+		this.inlineEditors.delete(block);
+		editor.destroy();
+		this.updateDirtyIndicator(block);
+	}
+
+	private clearAutoSave(block: HTMLElement) {
+		window.clearTimeout(this.autoSaveTimers.get(block));
+		this.autoSaveTimers.delete(block);
+	}
+
+	/** 编辑器内容与上次载入或保存的文本不同，即有未保存的修改 */
+	private isEditorDirty(block: HTMLElement, editor: InlineEditor | undefined = this.inlineEditors.get(block)): boolean {
+		if (!editor || this.discardedEditors.has(editor)) return false;
+		const baseline = this.editBaselines.get(block);
+		return !!baseline && editor.view.state.doc.toString() !== baseline.base;
+	}
+
+	/** root 内有未保存修改的嵌入块 */
+	private getDirtyBlocks(root: Node): HTMLElement[] {
+		return this.getEnhancedBlocks().filter((block) => root.contains(block) && this.isEditorDirty(block));
+	}
+
+	/** 有未保存的修改时在标题栏名称后显示标记 */
+	private updateDirtyIndicator(block: HTMLElement) {
+		const titleBar = block.querySelector('.embedded-note-title-bar') as HTMLElement | null;
+		if (!titleBar) return;
+		const dirty = this.isEditorDirty(block);
+		titleBar.classList.toggle('embedded-note-dirty', dirty);
+		const marker = titleBar.querySelector('.embedded-note-dirty-indicator');
+		if (!dirty) {
+			marker?.remove();
+			return;
+		}
+		if (marker) return;
+		const indicator = document.createElement('span');
+		indicator.className = 'embedded-note-dirty-indicator';
+		indicator.textContent = '●';
+		indicator.setAttribute('aria-label', t('titleBar.unsaved'));
+		indicator.setAttribute('title', t('titleBar.unsaved'));
+		const titleText = titleBar.querySelector('.embedded-note-title-text');
+		if (titleText) {
+			titleText.after(indicator);
+		} else {
+			titleBar.prepend(indicator);
+		}
+	}
+
+	/**
+	 * 关闭编辑器前处理未保存的修改：自动保存时直接保存，仅手动保存或保存未成功时
+	 * 询问保存、放弃或取消。返回 false 表示取消本次操作
+	 */
+	private async confirmPendingEdits(blocks: HTMLElement[]): Promise<boolean> {
+		let dirty = blocks.filter((block) => this.isEditorDirty(block));
+		if (dirty.length === 0) return true;
+		if (!this.settings.manualSaveOnly) {
+			await Promise.all(dirty.map((block) => {
+				this.clearAutoSave(block);
+				return this.saveEditorContent(this.inlineEditors.get(block) as InlineEditor, block);
+			}));
+			dirty = dirty.filter((block) => this.isEditorDirty(block));
+			if (dirty.length === 0) return true;
+		}
+
+		const names = dirty.map((block) => this.resolveLinkedFile(block)?.basename || block.getAttribute('data-file-link') || '');
+		const choice = await new Promise<UnsavedChoice>((resolve) => new UnsavedChangesModal(this.app, names, resolve).open());
+		if (choice === 'cancel') return false;
+		if (choice === 'discard') {
+			dirty.forEach((block) => {
+				this.clearAutoSave(block);
+				const editor = this.inlineEditors.get(block);
+				if (editor) this.discardedEditors.add(editor);
+				this.updateDirtyIndicator(block);
+			});
+			return true;
+		}
+		const saved = await Promise.all(dirty.map((block) => {
+			const editor = this.inlineEditors.get(block);
+			return editor ? this.saveEditorContent(editor, block) : Promise.resolve(true);
+		}));
+		return saved.every(Boolean);
+	}
+
+	/**
+	 * 不等待确认，立即发起保存：停用插件时，以及自动保存模式下关闭标签页时使用
+	 */
+	private flushPendingEdits(blocks: HTMLElement[]) {
+		const pending: Array<{ block: HTMLElement; editor: InlineEditor; file: TFile | null }> = [];
+		blocks.forEach((block) => {
+			const editor = this.inlineEditors.get(block);
+			if (!editor) return;
+			this.clearAutoSave(block);
+			pending.push({ block, editor, file: this.resolveLinkedFile(block) });
+		});
+		pending.forEach(({ block, editor, file }) => void this.saveEditorContent(editor, block, file));
 	}
 
 	/**
-	 * 从文本中移除 frontmatter（YAML 属性）
+	 * 拦截标签页关闭与在其中打开其他文件。自动保存时关闭前直接发起保存；
+	 * 仅手动保存且有未保存的修改时先拦下关闭，确认保存或放弃后再重新关闭，取消则保留标签页。
+	 * 打开其他文件可以等待，有未保存的修改时先确认
 	 */
-	private removeFrontmatter(content: string): string {
-		// 检查是否以 --- 开头（frontmatter 标记）
-		if (!content.trimStart().startsWith('---')) {
-			return content;
-		}
-		
-		// 查找第二个 --- 的位置
-		const lines = content.split('\n');
-		let endIndex = -1;
-		let startFound = false;
-		
-		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i].trim();
-			if (trimmed === '---') {
-				if (!startFound) {
-					startFound = true;
-				} else {
-					endIndex = i;
-					break;
-				}
+	private registerLeafGuards() {
+		const plugin = this;
+		this.register(around(WorkspaceLeaf.prototype, {
+			detach(next) {
+				return function (this: WorkspaceLeaf) {
+					const blocks = plugin.getDirtyBlocks(this.view.containerEl);
+					if (blocks.length === 0 || !plugin.settings.manualSaveOnly || plugin.isUnloaded) {
+						plugin.flushPendingEdits(blocks);
+						return next.call(this);
+					}
+					// 确认期间再次关闭同一标签页时不重复询问
+					if (plugin.confirmingLeaves.has(this)) return;
+					plugin.confirmingLeaves.add(this);
+					void plugin.confirmPendingEdits(blocks).then((proceed) => {
+						plugin.confirmingLeaves.delete(this);
+						if (proceed) this.detach();
+					});
+				};
+			},
+			openFile(next) {
+				return function (this: WorkspaceLeaf, file: TFile, openState?: OpenViewState): Promise<void> {
+					// 同一文件内跳转（如标题链接）不会重新渲染
+					const view = this.view;
+					const blocks = view instanceof MarkdownView && view.file === file ? [] : plugin.getDirtyBlocks(view.containerEl);
+					if (blocks.length === 0) return next.call(this, file, openState);
+					return plugin.confirmPendingEdits(blocks).then((proceed) => proceed ? next.call(this, file, openState) : undefined);
+				};
 			}
-		}
-		
-		// 如果找到了完整的 frontmatter，移除它
-		if (endIndex > 0) {
-			// 移除 frontmatter 和后面的空行
-			let contentAfterFrontmatter = lines.slice(endIndex + 1).join('\n');
-			// 移除开头的空行
-			contentAfterFrontmatter = contentAfterFrontmatter.replace(/^\n+/, '');
-			return contentAfterFrontmatter;
-		}
-		
-		return content;
+		}));
 	}
 
 	/**
-	 * 自动调整 textarea 高度以适应内容
+	 * 为带子路径的嵌入块创建片段编辑会话，整篇嵌入或无法定位时返回 null
 	 */
-	private autoResizeTextarea(textarea: HTMLTextAreaElement) {
-		// Use data attribute to control height via CSS instead of inline styles
-		const scrollHeight = textarea.scrollHeight;
-		
-		// 设置最小高度为140px（与CSS中的min-height一致）
-		const minHeight = 140;
-		// 设置最大高度为视口高度的60%，避免过高
-		const maxHeight = window.innerHeight * 0.6;
-		
-		// 计算最终高度
-		const finalHeight = Math.max(minHeight, Math.min(scrollHeight + 10, maxHeight));
-		
-		// Set height via CSS custom property instead of inline style
-		document.documentElement.style.setProperty('--embedded-note-editor-height', `${finalHeight}px`);
-		
-		this.log(`Auto-resized textarea: ${finalHeight}px (content: ${scrollHeight}px)`);
+	private createEditSession(block: HTMLElement, file: TFile, content: string): InlineEditSession | null {
+		const subpath = block.getAttribute('data-link-subpath') || '';
+		if (!subpath) return null;
+		const range = this.resolveSubpathRange(file, content, subpath);
+		if (!range) {
+			this.warn(`Cannot locate ${subpath} in ${file.path}`);
+			return null;
+		}
+		const original = content.slice(range.start, range.end);
+		// 块引用的 ^id 标识不交给编辑器，保存时补回，避免引用被误删
+		const blockRef = subpath.startsWith('#^') ? subpath.slice(2) : '';
+		const tailPattern = blockRef
+			? new RegExp(`(\\s*\\^${this.escapeRegExp(blockRef)})?\\s*$`)
+			: /\s*$/;
+		const tailMatch = original.match(tailPattern);
+		const trailing = tailMatch ? tailMatch[0] : '';
+		return { subpath, start: range.start, end: range.end, original, trailing };
 	}
 
 	/**
-	 * 启用原地编辑功能
+	 * 根据 metadataCache 中的标题/块位置计算子路径对应的片段范围
 	 */
-    public async enableInlineEditing(block: HTMLElement) {
-		const embedContent = this.getEmbedContent(block) as HTMLElement;
-		if (!embedContent) return;
-
-		// 标记文件为编辑状态
-		const file = this.resolveLinkedFile(block);
-		if (file) {
-			this.editingFiles.add(file.path);
-			this.log(`Added file to editing set: ${file.path}`);
-			this.log(`Current editing files: ${Array.from(this.editingFiles)}`);
+	private resolveSubpathRange(file: TFile, content: string, subpath: string): { start: number; end: number } | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return null;
+		const result = resolveSubpath(cache, subpath);
+		if (!result) return null;
+		const start = result.start.offset;
+		const end = Math.min(result.end ? result.end.offset : content.length, content.length);
+		// 缓存可能落后于文件内容，确认标题/块标识仍在记录的位置上
+		if (result.type === 'heading') {
+			const headingLine = content.slice(start, result.current.position.end.offset);
+			if (!headingLine.includes(result.current.heading)) return null;
+			return { start, end };
 		}
+		if (result.type === 'block') {
+			// 列表项、段落的 ^id 在块末尾；表格等块的 ^id 位于紧随其后的一行（换行可能是 CRLF）
+			const lineBreak = content.startsWith('\r\n', end) ? 2 : 1;
+			const markerAt = content.indexOf(`^${result.block.id}`, start);
+			if (markerAt < 0 || markerAt > end + lineBreak) return null;
+			return { start, end };
+		}
+		return null;
+	}
 
-		// 使用 textarea 进行编辑，避免把提示或其他 DOM 写入文件
-        // 防御性校验：若出现多个 textarea，仅保留一个
-        const editors = Array.from(embedContent.querySelectorAll('textarea.embedded-note-editor')) as HTMLTextAreaElement[];
-        if (editors.length > 1) {
-            editors.slice(1).forEach(e => e.remove());
-        }
-        let editor = editors[0] || (embedContent.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null);
-		if (!editor) {
-			// 将现有内容移入隐藏容器，供关闭时还原
-			let originalContainer = embedContent.querySelector('.embedded-note-original') as HTMLElement | null;
-			if (!originalContainer) {
-				originalContainer = document.createElement('div');
-				originalContainer.className = 'embedded-note-original';
-				while (embedContent.firstChild) {
-					originalContainer.appendChild(embedContent.firstChild);
-				}
-				embedContent.appendChild(originalContainer);
-			}
-			originalContainer.classList.add('embedded-note-original-hidden');
+	/** 转义正则表达式中的特殊字符 */
+	private escapeRegExp(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
 
-			editor = document.createElement('textarea');
-			editor.className = 'embedded-note-editor';
-			// 初始值使用源文件内容，而不是渲染后的文本
-			if (file) {
-				try {
-					let content = await this.app.vault.read(file);
-					// 根据设置决定是否显示属性
-					if (!this.settings.showPropertiesInEdit) {
-						content = this.removeFrontmatter(content);
-					}
-					editor.value = content;
-				} catch {
-					editor.value = embedContent.textContent || '';
-				}
-			} else {
-				editor.value = embedContent.textContent || '';
+	/**
+	 * 将编辑后的片段拼回文件内容，片段按拼接位置的换行符转换；
+	 * 片段位置已变化且无法唯一定位时抛出异常，避免误写
+	 */
+	private spliceSessionContent(data: string, session: InlineEditSession, text: string): { content: string; start: number; replacement: string } {
+		let start = session.start;
+		if (data.slice(start, session.end) !== session.original) {
+			start = data.indexOf(session.original);
+			if (start < 0 || data.indexOf(session.original, start + 1) >= 0) {
+				throw new Error(`Embedded section ${session.subpath} changed outside the editor`);
 			}
-			// 插入编辑器（保留 originalContainer）
-			embedContent.appendChild(editor);
-
-			// 自动调整编辑器高度以适应内容
-			// 需要在下一帧执行，确保DOM已更新
-			setTimeout(() => {
-				this.autoResizeTextarea(editor as HTMLTextAreaElement);
-			}, 0);
-
-            // 不再创建额外预览容器，沿用 Obsidian 渲染（保持单窗口）
 		}
-
-        // 冻结该块，避免在编辑期间被任何流程重新处理
-        block.setAttribute('data-freeze', 'true');
-		if (this.debugVerbose) console.debug('[EmbeddedNoteEnhancer] freeze on', block.getAttribute('data-block-id'));
-
-		// 冻结该块，避免在编辑期间被任何流程重新处理
-		block.setAttribute('data-freeze', 'true');
-
-		this.isolateEditorEvents(editor);
-		this.setupTextareaListeners(editor, block);
-        // 不做额外渲染，维持单窗口体验
+		const replacement = this.toLineEnding(text, this.lineEndingAt(data, start)) + session.trailing;
+		const content = data.slice(0, start) + replacement + data.slice(start + session.original.length);
+		return { content, start, replacement };
 	}
 
 	/** 解析嵌入块所对应的文件 */
@@ -2103,14 +3072,34 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		const titleBar = block.querySelector('.embedded-note-title-bar');
 		const fileLink = block.getAttribute('data-file-link') || titleBar?.textContent?.trim() || '';
 		if (!fileLink) return null;
-		const activeFile = this.app.workspace.getActiveFile();
-		let file = this.app.metadataCache.getFirstLinkpathDest(fileLink, activeFile?.path || '');
-		if (!file) {
-			const direct = this.app.vault.getAbstractFileByPath(fileLink);
-			const withMd = this.app.vault.getAbstractFileByPath(`${fileLink}.md`);
-			file = (direct instanceof TFile ? direct : null) || (withMd instanceof TFile ? withMd : null);
+		return this.resolveFileLink(fileLink, this.getBlockSourcePath(block));
+	}
+
+	/** 以宿主笔记为来源解析链接，失败时按 vault 路径直接查找 */
+	private resolveFileLink(fileLink: string, sourcePath: string): TFile | null {
+		const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, sourcePath);
+		if (file) return file;
+		const direct = this.app.vault.getAbstractFileByPath(fileLink);
+		const withMd = this.app.vault.getAbstractFileByPath(`${fileLink}.md`);
+		return (direct instanceof TFile ? direct : null) || (withMd instanceof TFile ? withMd : null);
+	}
+
+	/**
+	 * 获取嵌入块宿主笔记的路径：优先使用后处理器记录的路径，其次为外层嵌入引用的笔记、所在视图的文件
+	 */
+	private getBlockSourcePath(block: HTMLElement): string {
+		const recorded = block.getAttribute('data-source-path');
+		if (recorded) return recorded;
+		// 嵌套嵌入的宿主是外层嵌入所引用的笔记
+		const parentEmbed = block.parentElement?.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
+		if (parentEmbed) {
+			const parentLink = parentEmbed.getAttribute('data-file-link') || parentEmbed.getAttribute('src') || '';
+			const parentFile = parentLink ? this.resolveFileLink(parentLink.split('#')[0], this.getBlockSourcePath(parentEmbed)) : null;
+			if (parentFile) return parentFile.path;
 		}
-		return file instanceof TFile ? file : null;
+		const view = this.getHostMarkdownView(block);
+		if (view?.file) return view.file.path;
+		return this.app.workspace.getActiveFile()?.path || '';
 	}
 
 	/** 检查嵌入引用的文件是否存在 */
@@ -2188,8 +3177,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				if (internalLink) {
 					const href = internalLink.getAttribute('href');
 					if (href && !this.isImageExtension(href)) {
-						const activeFile = this.app.workspace.getActiveFile();
-						const file = this.app.metadataCache.getFirstLinkpathDest(href, activeFile?.path || '');
+						const file = this.app.metadataCache.getFirstLinkpathDest(href, this.getBlockSourcePath(block));
 						if (file && this.isImageFile(file)) {
 							isImage = true;
 						}
@@ -2200,8 +3188,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 				if (!isImage) {
 					const fileLink = block.getAttribute('data-file-link');
 					if (fileLink && !this.isImageExtension(fileLink)) {
-						const activeFile = this.app.workspace.getActiveFile();
-						const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, activeFile?.path || '');
+						const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, this.getBlockSourcePath(block));
 						if (file && this.isImageFile(file)) {
 							isImage = true;
 						}
@@ -2278,9 +3265,9 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		}
 
 		// 通过文件解析检查
-		const activeFile = this.app.workspace.getActiveFile();
+		const sourcePath = this.getBlockSourcePath(block);
 		if (fileLink) {
-			const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, activeFile?.path || '');
+			const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, sourcePath);
 			if (file && this.isPdfFile(file)) {
 				return true;
 			}
@@ -2289,7 +3276,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		if (internalLink) {
 			const href = internalLink.getAttribute('href');
 			if (href) {
-				const file = this.app.metadataCache.getFirstLinkpathDest(href, activeFile?.path || '');
+				const file = this.app.metadataCache.getFirstLinkpathDest(href, sourcePath);
 				if (file && this.isPdfFile(file)) {
 					return true;
 				}
@@ -2299,65 +3286,6 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		return false;
 	}
 
-	/**
-	 * 节流处理，防止短时间内重复处理
-	 */
-	private throttledProcess(key: string, callback: () => void, delay: number = 100) {
-		const now = Date.now();
-		const lastTime = this.processingThrottle.get(key) || 0;
-		
-		if (now - lastTime < delay) {
-			this.log(`Throttling ${key}, last processed ${now - lastTime}ms ago`);
-			return;
-		}
-		
-		this.processingThrottle.set(key, now);
-		callback();
-	}
-
-	/**
-	 * 检查文件是否需要重新处理嵌套嵌入
-	 */
-	private shouldReprocessNestedEmbeds(filePath: string): boolean {
-		const now = Date.now();
-		const cached = this.fileEmbedStructure.get(filePath);
-		
-		// 如果没有缓存，需要处理
-		if (!cached) {
-			return true;
-		}
-		
-		// 如果缓存时间超过5分钟，需要重新处理
-		if (now - cached.timestamp > 5 * 60 * 1000) {
-			this.fileEmbedStructure.delete(filePath);
-			return true;
-		}
-		
-		// 如果有缓存且时间未过期，不需要重新处理
-			this.log(`Skipping nested processing for ${filePath} (cached ${Math.round((now - cached.timestamp) / 1000)}s ago)`);
-		return false;
-	}
-
-	/**
-	 * 缓存文件的嵌入结构信息
-	 */
-	private cacheFileEmbedStructure(filePath: string, embedCount: number, hasImages: boolean) {
-		this.fileEmbedStructure.set(filePath, {
-			timestamp: Date.now(),
-			embedCount,
-			hasImages
-		});
-	}
-
-	/**
-	 * 清除文件的缓存，当文件被修改时调用
-	 */
-	private clearFileCache(filePath: string) {
-		this.fileEmbedStructure.delete(filePath);
-		this.processedFiles.delete(filePath);
-			this.log(`Cleared cache for file: ${filePath}`);
-	}
-
 	/**
 	 * 预加载文件类型缓存，提升性能
 	 */
@@ -2370,26 +3298,26 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			if (!container) return;
 
 			// 收集所有可能的文件链接
-			const fileLinks = new Set<string>();
+			const fileLinks = new Map<string, string>();
 			
 			// 从嵌入块中收集文件链接
 			const embeds = container.querySelectorAll('.markdown-embed, .internal-embed');
 			embeds.forEach((embed) => {
+				const sourcePath = this.getBlockSourcePath(embed as HTMLElement);
 				const fileLink = embed.getAttribute('data-file-link');
-				if (fileLink) fileLinks.add(fileLink);
+				if (fileLink) fileLinks.set(fileLink, sourcePath);
 
 				const internalLink = embed.querySelector('a.internal-link');
 				if (internalLink) {
 					const href = internalLink.getAttribute('href');
-					if (href) fileLinks.add(href);
+					if (href) fileLinks.set(href, sourcePath);
 				}
 			});
 
 			// 预加载文件类型缓存
-			fileLinks.forEach((fileLink) => {
+			fileLinks.forEach((sourcePath, fileLink) => {
 				if (!this.fileTypeCache.has(fileLink)) {
-					const activeFile = this.app.workspace.getActiveFile();
-					const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, activeFile?.path || '');
+					const file = this.app.metadataCache.getFirstLinkpathDest(fileLink, sourcePath);
 					if (file) {
 						this.isImageFile(file); // 这会缓存结果
 					}
@@ -2410,15 +3338,16 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		const titleBar = block.querySelector('.embedded-note-title-bar');
 		if (titleBar) titleBar.remove();
 		const embedContent = block.querySelector('.markdown-embed-content') as HTMLElement | null;
+		this.destroyInlineEditor(block);
 		if (embedContent) {
-			const editor = embedContent.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
-			if (editor) editor.remove();
 			const original = embedContent.querySelector('.embedded-note-original') as HTMLElement | null;
 			if (original) original.remove();
 		}
 		block.removeAttribute('data-title-bar-added');
 		block.removeAttribute('data-block-id');
 		block.removeAttribute('data-file-link');
+		block.removeAttribute('data-link-subpath');
+		block.removeAttribute('data-editable');
 		block.removeAttribute('data-editing');
 		block.removeAttribute('tabindex');
 		block.removeAttribute('data-original-html');
@@ -2427,116 +3356,424 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		block.removeAttribute('data-embedded-note-enhanced');
 	}
 
-	/** 阻断 textarea 事件向上冒泡，避免触发工作区热键/跳转 */
-	private isolateEditorEvents(editor: HTMLTextAreaElement) {
-		const stop = (e: Event) => {
-			e.stopPropagation();
-			(e as Event).stopImmediatePropagation?.();
-			// @ts-ignore
-			e.cancelBubble = true;
+	/**
+	 * 阻断编辑器内的输入与点击事件继续冒泡到宿主笔记（实时预览编辑器、阅读视图、嵌入块）。
+	 * 带 Ctrl/Cmd/Alt 的按键照常冒泡，交给 Obsidian 的快捷键处理；
+	 * 快捷键作用的编辑器由聚焦时设置的 activeEditor 决定，不会落到宿主笔记上
+	 */
+	private isolateEditorEvents(containerEl: HTMLElement) {
+		const stop = (e: Event) => e.stopPropagation();
+		const stopUnmodified = (e: KeyboardEvent) => {
+			if (!e.ctrlKey && !e.metaKey && !e.altKey) e.stopPropagation();
 		};
-		['keydown','keypress','keyup','mousedown','click','dblclick','wheel','focus','focusin'].forEach((type) => {
-			editor.addEventListener(type, stop, true);
-			editor.addEventListener(type, stop, false);
+		['keydown', 'keypress', 'keyup'].forEach((type) => {
+			containerEl.addEventListener(type, stopUnmodified as EventListener);
+		});
+		['beforeinput', 'input', 'mousedown', 'click', 'dblclick', 'contextmenu', 'paste', 'drop'].forEach((type) => {
+			containerEl.addEventListener(type, stop);
 		});
-
-		// 特殊处理：在少数主题/插件下，数字键可能仍被全局处理
-		editor.addEventListener('keydown', (e: KeyboardEvent) => {
-			// 仅当是可打印字符且未按下修饰键时，确保不被外部拦截
-			if (!e.ctrlKey && !e.metaKey && !e.altKey) {
-				// 阻断传播，保留默认，从而让 textarea 正常输入
-				e.stopPropagation();
-				(e as Event).stopImmediatePropagation?.();
-			}
-		}, true);
 	}
 
 	/**
-	 * 添加编辑指示器
+	 * 在编辑器旁添加渲染预览：并排布局直接显示，标签布局通过"编辑/预览"标签切换。
+	 * 预览只渲染编辑器中的文本，不写入文件
 	 */
-// 删除常驻编辑提示逻辑
+	private attachEditPreview(block: HTMLElement) {
+		const editor = this.inlineEditors.get(block);
+		const embedContent = editor?.containerEl.parentElement;
+		if (!editor || !embedContent || embedContent.querySelector(':scope > .embedded-note-preview')) return;
+
+		const preview = document.createElement('div');
+		preview.className = 'embedded-note-preview markdown-rendered';
+		preview.setAttribute('aria-label', t('preview.label'));
+		embedContent.appendChild(preview);
+		this.isolateEditorEvents(preview);
+		// 预览中的内部链接按嵌入文件解析并打开
+		preview.addEventListener('click', (e) => {
+			const link = (e.target as HTMLElement).closest('a.internal-link') as HTMLAnchorElement | null;
+			if (!link) return;
+			e.preventDefault();
+			const file = this.resolveLinkedFile(block);
+			void this.app.workspace.openLinkText(link.getAttribute('data-href') || link.getAttribute('href') || '', file?.path || '', Keymap.isModEvent(e));
+		});
 
-	/**
-	 * 设置编辑监听器
-	 */
-    private setupTextareaListeners(editor: HTMLTextAreaElement, block: HTMLElement) {
-		let saveTimeout: NodeJS.Timeout;
+		if (this.settings.editPreviewLayout === 'tabs') {
+			const tabs = document.createElement('div');
+			tabs.className = 'embedded-note-preview-tabs';
+			tabs.setAttribute('role', 'tablist');
+			const select = (showPreview: boolean) => {
+				editTab.setAttribute('aria-selected', String(!showPreview));
+				previewTab.setAttribute('aria-selected', String(showPreview));
+				editor.containerEl.classList.toggle('embedded-note-hidden', showPreview);
+				preview.classList.toggle('embedded-note-hidden', !showPreview);
+				if (showPreview) {
+					void this.renderEditPreview(block);
+				} else {
+					editor.view.focus();
+				}
+			};
+			const createTab = (label: string, showPreview: boolean) => {
+				const tab = tabs.createEl('button', { cls: 'embedded-note-preview-tab', text: label });
+				tab.setAttribute('role', 'tab');
+				tab.addEventListener('click', () => select(showPreview));
+				return tab;
+			};
+			const editTab = createTab(t('preview.editTab'), false);
+			const previewTab = createTab(t('preview.previewTab'), true);
+			this.isolateEditorEvents(tabs);
+			embedContent.insertBefore(tabs, editor.containerEl);
+			select(false);
+		} else {
+			embedContent.classList.add('embedded-note-preview-side');
+			void this.renderEditPreview(block);
+		}
+	}
 
-		const triggerSave = () => {
-            if (this.settings.manualSaveOnly) return;
-			if (saveTimeout) clearTimeout(saveTimeout);
-            const delay = Math.max(0, this.settings.autoSaveDelay || 1000);
-			saveTimeout = setTimeout(() => {
-				this.saveEditorContent(editor, block);
-            }, delay);
-		};
+	/** 移除编辑预览并释放其渲染组件 */
+	private detachEditPreview(block: HTMLElement) {
+		window.clearTimeout(this.previewTimers.get(block));
+		this.previewTimers.delete(block);
+		this.previewComponents.get(block)?.unload();
+		this.previewComponents.delete(block);
+		const embedContent = this.inlineEditors.get(block)?.containerEl.parentElement;
+		if (!embedContent) return;
+		embedContent.classList.remove('embedded-note-preview-side');
+		embedContent.querySelectorAll(':scope > .embedded-note-preview, :scope > .embedded-note-preview-tabs').forEach((el) => el.remove());
+		this.inlineEditors.get(block)?.containerEl.classList.remove('embedded-note-hidden');
+	}
 
-        editor.addEventListener('input', async () => {
-            triggerSave();
-        });
-		editor.addEventListener('blur', () => {
-            if (this.settings.manualSaveOnly) return;
-			if (saveTimeout) clearTimeout(saveTimeout);
-			this.saveEditorContent(editor, block);
-		});
-		editor.addEventListener('keydown', (e) => {
-			if (e.ctrlKey && e.key === 's') {
-				e.preventDefault();
-				if (saveTimeout) clearTimeout(saveTimeout);
-				this.saveEditorContent(editor, block);
-			}
-		});
+	/** 编辑后延迟刷新预览，连续输入时只渲染一次 */
+	private scheduleEditPreview(block: HTMLElement) {
+		if (!this.settings.livePreviewEnabled) return;
+		window.clearTimeout(this.previewTimers.get(block));
+		this.previewTimers.set(block, window.setTimeout(() => {
+			this.previewTimers.delete(block);
+			void this.renderEditPreview(block);
+		}, 300));
 	}
 
-    // 移除自定义预览渲染，回退到 Obsidian 的原生渲染
+	/**
+	 * 以嵌入文件的路径渲染编辑器中的文本。先渲染到游离容器再替换，
+	 * 避免刷新时预览高度跳动；渲染期间又有新内容时丢弃旧结果
+	 */
+	private async renderEditPreview(block: HTMLElement) {
+		const editor = this.inlineEditors.get(block);
+		const preview = editor?.containerEl.parentElement?.querySelector(':scope > .embedded-note-preview') as HTMLElement | null;
+		if (!editor || !preview || preview.classList.contains('embedded-note-hidden')) return;
+		const file = this.resolveLinkedFile(block);
+		const seq = (this.previewRenderSeq.get(block) || 0) + 1;
+		this.previewRenderSeq.set(block, seq);
+		const component = new Component();
+		component.load();
+		const rendered = document.createElement('div');
+		try {
+			await MarkdownRenderer.render(this.app, editor.view.state.doc.toString(), rendered, file?.path || '', component);
+		} catch (error) {
+			this.warn('Failed to render edit preview', error);
+		}
+		if (this.previewRenderSeq.get(block) !== seq || this.inlineEditors.get(block) !== editor || !preview.isConnected) {
+			component.unload();
+			return;
+		}
+		this.previewComponents.get(block)?.unload();
+		this.previewComponents.set(block, component);
+		preview.replaceChildren(...Array.from(rendered.childNodes));
+	}
 
 	/**
 	 * 保存嵌入内容
 	 */
-	private async saveEditorContent(editor: HTMLTextAreaElement, block: HTMLElement) {
+	private async saveEditorContent(editor: InlineEditor, block: HTMLElement, file: TFile | null = this.resolveLinkedFile(block)): Promise<boolean> {
 		try {
-			const file = this.resolveLinkedFile(block);
 			if (!file) {
 				this.warn('Cannot resolve file for block');
-				return;
+				return false;
 			}
 
-			// 标记文件为编辑状态，防止文件修改事件触发重新渲染
-			this.editingFiles.add(file.path);
+			// 已放弃的修改不再写入；合并对话框打开期间不保存，结果由对话框确认后写入
+			if (this.discardedEditors.has(editor) || this.mergingBlocks.has(block)) return false;
+
+			// 锁定的笔记拒绝写入（包括快捷键触发的保存），并将编辑器置为只读
+			if (this.isFileLocked(file)) {
+				editor.view.dispatch({ effects: StateEffect.appendConfig.of(EditorView.editable.of(false)) });
+				editor.containerEl.classList.add('embedded-note-editor-disabled');
+				new Notice(t('notice.lockedSave', { name: file.basename }));
+				return false;
+			}
 
-			// 获取编辑后的内容（textarea 的值）
-			let newContent = editor.value;
+			// 章节嵌入只能按片段写回，没有编辑会话时不退回写入整个文件
+			if (block.getAttribute('data-link-subpath') && !this.editSessions.has(block)) {
+				this.warn(`No edit session for section embed, not saving ${file.path}`);
+				return false;
+			}
 
-			// 如果编辑时隐藏了属性，需要保留原文件的 frontmatter
-			if (!this.settings.showPropertiesInEdit) {
-				const originalContent = await this.app.vault.read(file);
-				const frontmatter = this.extractFrontmatter(originalContent);
-				
-				// 如果原文件有 frontmatter，将其添加到新内容前面
-				if (frontmatter) {
-					newContent = frontmatter + '\n' + newContent;
-				}
+			// 内容与上次载入或保存时相同，无需写入
+			const baseline = this.editBaselines.get(block);
+			if (baseline && editor.view.state.doc.toString() === baseline.base) return true;
+
+			// 文件在编辑期间被其他面板、同步或插件修改时，先与外部修改合并
+			if (baseline && file.stat.mtime !== baseline.mtime) {
+				const proceed = await this.reconcileExternalChanges(file, block, editor, baseline);
+				if (!proceed) return false;
+			}
+
+			// 标记文件为编辑状态，防止文件修改事件触发重新渲染
+			this.editingFiles.add(file.path);
+			this.filesToSync.add(file.path);
+
+			// 章节嵌入：只替换对应片段，文件其余部分保持不变
+			const session = this.editSessions.get(block);
+			if (session) {
+				let replacement = '';
+				let start = session.start;
+				let written = '';
+				const text = editor.view.state.doc.toString();
+				let previous = '';
+				await this.app.vault.process(file, (data) => {
+					previous = data;
+					const spliced = this.spliceSessionContent(data, session, text);
+					replacement = spliced.replacement;
+					start = spliced.start;
+					written = spliced.content;
+					return spliced.content;
+				});
+				session.start = start;
+				session.end = start + replacement.length;
+				session.original = replacement;
+				this.editBaselines.set(block, { base: text, hash: this.simpleHash(written), mtime: file.stat.mtime });
+				this.syncConflictBlocks.delete(block);
+				await this.recordRevision(file, previous, written);
+				this.updateDirtyIndicator(block);
+				this.showSaveIndicator(editor.containerEl, true);
+				setTimeout(() => {
+					this.editingFiles.delete(file.path);
+				}, 1000);
+				return true;
 			}
 
-			// 保存到文件
-			await this.app.vault.modify(file, newContent);
+			// 在同一次读-改-写中拼接：隐藏属性时保留文件当前的 frontmatter，
+			// 并沿用原文件的换行符、BOM 与末尾换行
+			const text = editor.view.state.doc.toString();
+			let newContent = '';
+			let previous = '';
+			await this.app.vault.process(file, (data) => {
+				previous = data;
+				newContent = this.composeFileContent(file, data, text);
+				return newContent;
+			});
+			this.editBaselines.set(block, { base: text, hash: this.simpleHash(newContent), mtime: file.stat.mtime });
+			this.syncConflictBlocks.delete(block);
+			await this.recordRevision(file, previous, newContent);
+			this.updateDirtyIndicator(block);
 
 			// 显示保存成功提示
-			this.showSaveIndicator(editor, true);
+			this.showSaveIndicator(editor.containerEl, true);
 
 			// 延迟移除编辑状态标记，确保文件修改事件处理完成
 			setTimeout(() => {
 				this.editingFiles.delete(file.path);
 			}, 1000);
+			return true;
 
 		} catch (error) {
-			this.error('保存嵌入内容失败:', error);
-			this.showSaveIndicator(editor, false);
+			// 写入失败不会产生元数据变化，取消待同步标记
+			if (file) this.filesToSync.delete(file.path);
+			this.error('Failed to save embedded content:', error);
+			this.showSaveIndicator(editor.containerEl, false);
 			// 出错时也要移除编辑状态标记
-			const file = this.resolveLinkedFile(block);
 			if (file) {
 				this.editingFiles.delete(file.path);
 			}
+			return false;
+		}
+	}
+
+	/**
+	 * 处理编辑期间发生的外部修改：编辑区域未被改动时直接继续；
+	 * 否则以载入时的文本为基准三方合并，存在冲突时交由用户在合并对话框中处理。
+	 * 合并结果写回编辑器，返回 false 表示用户取消，本次不保存
+	 */
+	private async reconcileExternalChanges(file: TFile, block: HTMLElement, editor: InlineEditor, baseline: EditBaseline): Promise<boolean> {
+		const current = await this.app.vault.read(file);
+		const hash = this.simpleHash(current);
+		if (hash === baseline.hash) {
+			baseline.mtime = file.stat.mtime;
+			return true;
+		}
+
+		const theirs = this.getEditableText(block, file, current);
+		if (theirs === null) {
+			throw new Error(`Cannot locate ${block.getAttribute('data-link-subpath')} in ${file.path} after external change`);
+		}
+		const mine = editor.view.state.doc.toString();
+		// 外部修改只涉及编辑区域之外（如隐藏的属性、其他章节），或与本地修改相同
+		if (theirs === baseline.base || theirs === mine) {
+			this.editBaselines.set(block, { base: theirs, hash, mtime: file.stat.mtime });
+			return true;
+		}
+
+		const chunks = mergeLines(baseline.base.split('\n'), mine.split('\n'), theirs.split('\n'));
+		let merged: string | null;
+		if (chunks.some((chunk) => chunk.type === 'conflict')) {
+			this.mergingBlocks.add(block);
+			try {
+				merged = await new Promise<string | null>((resolve) => {
+					new EmbedMergeModal(this.app, file.path, chunks, resolve).open();
+				});
+			} finally {
+				this.mergingBlocks.delete(block);
+			}
+			if (merged === null) {
+				new Notice(t('notice.mergeCancelled', { name: file.basename }));
+				return false;
+			}
+		} else {
+			merged = chunks.map((chunk) => chunk.type === 'resolved' ? chunk.lines.join('\n') : '').join('\n');
+			new Notice(t('notice.autoMerged', { name: file.basename }));
+		}
+
+		replaceEditorText(editor.view, merged);
+		this.editBaselines.set(block, { base: theirs, hash, mtime: file.stat.mtime });
+		return true;
+	}
+
+	/**
+	 * 取出文件内容中对应编辑器的部分：章节嵌入为该章节，隐藏属性时为正文，否则为全文。
+	 * 章节位置已变化时重新定位并更新编辑会话，无法定位时返回 null
+	 */
+	private getEditableText(block: HTMLElement, file: TFile, content: string): string | null {
+		let session = this.editSessions.get(block);
+		if (session) {
+			if (content.slice(session.start, session.end) !== session.original) {
+				session = this.createEditSession(block, file, content) || undefined;
+				if (!session) return null;
+				this.editSessions.set(block, session);
+			}
+			return session.original.slice(0, session.original.length - session.trailing.length).replace(/\r\n/g, '\n');
+		}
+		// 编辑器会把 CRLF 规范为 LF，这里保持一致，便于与编辑器内容比较
+		return this.splitFileContent(file, content).body.replace(/\r\n/g, '\n');
+	}
+
+	/** 文件历史版本的存放位置：插件目录下的 history 文件夹，按路径哈希命名 */
+	private getRevisionsPath(filePath: string): string {
+		return `${this.manifest.dir}/history/${this.simpleHash(filePath)}.json`;
+	}
+
+	/** 读取文件的历史版本，按时间从新到旧排列 */
+	public async loadRevisions(filePath: string): Promise<NoteRevision[]> {
+		try {
+			const data = JSON.parse(await this.app.vault.adapter.read(this.getRevisionsPath(filePath)));
+			return data.path === filePath && Array.isArray(data.revisions) ? data.revisions : [];
+		} catch {
+			return [];
+		}
+	}
+
+	private async writeRevisions(filePath: string, revisions: NoteRevision[]) {
+		const historyDir = `${this.manifest.dir}/history`;
+		if (!(await this.app.vault.adapter.exists(historyDir))) {
+			await this.app.vault.adapter.mkdir(historyDir);
+		}
+		await this.app.vault.adapter.write(this.getRevisionsPath(filePath), JSON.stringify({ path: filePath, revisions }));
+	}
+
+	/**
+	 * 记录保存前的文件内容，每次保存一个快照，数量由 historyLimit 限制。
+	 * 与最新快照相同或保存未改变内容时跳过
+	 */
+	private recordRevision(file: TFile, previous: string, next: string): Promise<void> {
+		if (this.settings.historyLimit <= 0 || previous === next) return Promise.resolve();
+		const filePath = file.path;
+		const task = (this.revisionQueues.get(filePath) || Promise.resolve()).then(async () => {
+			try {
+				const revisions = await this.loadRevisions(filePath);
+				const latest = revisions[0];
+				if (latest && latest.content === previous) return;
+				revisions.unshift({ time: Date.now(), content: previous });
+				await this.writeRevisions(filePath, revisions.slice(0, this.settings.historyLimit));
+			} catch (error) {
+				this.warn(`Failed to record revision for ${filePath}`, error);
+			}
+		});
+		this.revisionQueues.set(filePath, task);
+		// 队列排空后移除，避免长期持有已完成的 Promise
+		task.then(() => {
+			if (this.revisionQueues.get(filePath) === task) this.revisionQueues.delete(filePath);
+		});
+		return task;
+	}
+
+	private async moveRevisions(oldPath: string, newPath: string) {
+		const revisions = await this.loadRevisions(oldPath);
+		if (revisions.length === 0) return;
+		try {
+			await this.writeRevisions(newPath, revisions);
+			await this.deleteRevisions(oldPath);
+		} catch (error) {
+			this.warn(`Failed to move revisions of ${oldPath}`, error);
+		}
+	}
+
+	private async deleteRevisions(filePath: string) {
+		const path = this.getRevisionsPath(filePath);
+		try {
+			if (await this.app.vault.adapter.exists(path)) await this.app.vault.adapter.remove(path);
+		} catch {}
+	}
+
+	/**
+	 * 在标题栏历史按钮处弹出历史版本菜单，选择后预览与当前内容的差异
+	 */
+	private async openHistoryMenu(block: HTMLElement, evt: MouseEvent) {
+		const file = this.resolveLinkedFile(block);
+		if (!file) return;
+		const revisions = await this.loadRevisions(file.path);
+		const menu = new Menu();
+		if (revisions.length === 0) {
+			menu.addItem((item) => item.setTitle(t('history.empty')).setDisabled(true));
+		}
+		revisions.forEach((revision) => {
+			menu.addItem((item) => item
+				.setTitle(new Date(revision.time).toLocaleString())
+				.onClick(async () => {
+					const current = await this.app.vault.read(file);
+					new RevisionModal(this.app, file.path, revision, current, () => this.restoreRevision(file, revision)).open();
+				}));
+		});
+		menu.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * 恢复历史版本。恢复前的内容同样记为快照，恢复本身也可撤回；
+	 * 正在编辑该文件的原地编辑器同步为恢复后的内容
+	 */
+	private async restoreRevision(file: TFile, revision: NoteRevision) {
+		if (this.isFileLocked(file)) {
+			new Notice(t('notice.lockedRestore', { name: file.basename }));
+			return;
+		}
+		try {
+			let previous = '';
+			this.filesToSync.add(file.path);
+			await this.app.vault.process(file, (data) => {
+				previous = data;
+				return revision.content;
+			});
+			await this.recordRevision(file, previous, revision.content);
+			this.getEnhancedBlocks().forEach((block) => {
+				const editor = this.inlineEditors.get(block);
+				if (!editor || this.resolveLinkedFile(block)?.path !== file.path) return;
+				const text = this.getEditableText(block, file, revision.content);
+				if (text === null) return;
+				this.editBaselines.set(block, { base: text, hash: this.simpleHash(revision.content), mtime: file.stat.mtime });
+				replaceEditorText(editor.view, text);
+			});
+			new Notice(t('notice.restored', { name: file.basename }));
+		} catch (error) {
+			this.filesToSync.delete(file.path);
+			this.error('Failed to restore revision:', error);
+			new Notice(t('notice.restoreFailed', { name: file.basename }));
 		}
 	}
 
@@ -2546,7 +3783,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	private showSaveIndicator(targetEl: HTMLElement, success: boolean) {
 		// 临时浮层提示，不向 DOM 写入持久元素
 		const toast = document.createElement('div');
-		toast.textContent = success ? '✅ 已保存' : '❌ 保存失败';
+		toast.textContent = success ? t('toast.saved') : t('toast.saveFailed');
 		toast.className = success ? 'embedded-note-toast' : 'embedded-note-toast error';
 		const host = targetEl.parentElement || targetEl;
 		const computedPosition = window.getComputedStyle(host).position;
@@ -2581,6 +3818,8 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			}
 			// Strip query and hash
 			raw = raw.split('#')[0].split('?')[0];
+			// Strip block reference written without '#' (Note^block-id)
+			raw = raw.split('^')[0];
 			// Remove leading slashes
 			raw = raw.replace(/^\/+/, '');
 			// Get basename
@@ -2595,41 +3834,109 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	}
 
 	/**
-	 * 生成块ID
+	 * 提取链接中的子路径（#标题 或 #^块ID），无子路径时返回空字符串
 	 */
-	private generateBlockId(block: HTMLElement, fileName: string): string {
-		// 获取当前活动文件的路径，用于区分不同文件中的同名嵌入
-		const activeFile = this.app.workspace.getActiveFile();
-		const activeFilePath = activeFile?.path || 'unknown';
-		
-		// 计算嵌套层级
-		const nestLevel = this.calculateNestLevel(block);
-		
-		// 获取父级嵌入的ID（如果存在）
-		let parentContext = '';
-		let parent = block.parentElement;
-		while (parent) {
-			const parentBlockId = parent.getAttribute('data-block-id');
-			if (parentBlockId) {
-				parentContext = `-parent-${parentBlockId}`;
-				break;
+	private extractLinkSubpath(href: string): string {
+		const wikiMatch = href.match(/\[\[([^\]]+)\]\]/);
+		let raw = wikiMatch ? wikiMatch[1].split('|')[0] : href;
+		try {
+			if (/^[a-zA-Z]+:\/\//.test(raw)) {
+				raw = decodeURIComponent(new URL(raw).hash);
 			}
-			parent = parent.parentElement;
+		} catch {
+			return '';
+		}
+		raw = raw.split('?')[0];
+		const hashIndex = raw.indexOf('#');
+		if (hashIndex < 0) {
+			// 兼容省略 # 的块引用写法：笔记^块ID
+			const caretIndex = raw.indexOf('^');
+			return caretIndex >= 0 && caretIndex < raw.length - 1 ? `#${raw.slice(caretIndex)}` : '';
+		}
+		const subpath = raw.slice(hashIndex);
+		return subpath.length > 1 ? subpath : '';
+	}
+
+	/**
+	 * 生成块ID：由宿主笔记路径、链接目标（含子路径）及该链接在宿主中的出现序号组成，
+	 * 与嵌入块在 DOM 中的位置无关，在宿主中增删其他内容不会改变ID
+	 */
+	private generateBlockId(block: HTMLElement, fileName: string, linkSubpath: string = ''): string {
+		const hostPath = this.getBlockSourcePath(block) || 'unknown';
+		const target = this.resolveFileLink(fileName, hostPath);
+		const targetPath = target ? target.path : fileName;
+		const occurrence = this.getEmbedOccurrence(block, hostPath, targetPath, linkSubpath);
+		return this.buildBlockId(hostPath, targetPath, linkSubpath, occurrence);
+	}
+
+	/**
+	 * 组装块ID：embed-宿主哈希-目标哈希[-子路径哈希]-序号
+	 */
+	private buildBlockId(hostPath: string, targetPath: string, subpath: string, occurrence: number): string {
+		const subpathPart = subpath ? `-${this.simpleHash(subpath)}` : '';
+		return `embed-${this.simpleHash(hostPath)}-${this.simpleHash(targetPath)}${subpathPart}-${occurrence}`;
+	}
+
+	/**
+	 * 解析 metadataCache 中嵌入链接的目标文件路径与子路径
+	 */
+	private getEmbedTarget(link: string, hostPath: string): { path: string; subpath: string } {
+		const { path, subpath } = parseLinktext(link);
+		const file = this.resolveFileLink(path, hostPath);
+		return { path: file ? file.path : path, subpath: subpath.length > 1 ? subpath : '' };
+	}
+
+	/**
+	 * 计算嵌入块是宿主中指向同一目标的第几个嵌入。
+	 * 优先使用源文件位置（实时预览的编辑器偏移、阅读视图的段落行号）对照 metadataCache 的 embeds，
+	 * 无法定位时退回到同一容器内的 DOM 顺序
+	 */
+	private getEmbedOccurrence(block: HTMLElement, hostPath: string, targetPath: string, subpath: string): number {
+		const host = this.app.vault.getAbstractFileByPath(hostPath);
+		const embeds = host instanceof TFile ? this.app.metadataCache.getFileCache(host)?.embeds : undefined;
+		if (embeds) {
+			const matching = embeds.filter((embed) => {
+				const target = this.getEmbedTarget(embed.link, hostPath);
+				return target.path === targetPath && target.subpath === subpath;
+			});
+
+			const offset = this.getEditorOffset(block, hostPath);
+			if (offset !== null) {
+				return matching.filter((embed) => embed.position.start.offset < offset).length;
+			}
+
+			const line = block.getAttribute('data-source-line');
+			if (line !== null) {
+				const before = matching.filter((embed) => embed.position.start.line < parseInt(line)).length;
+				return before + parseInt(block.getAttribute('data-source-index') || '0');
+			}
+		}
+
+		// 兜底：同一容器内、同一宿主下相同链接的 DOM 顺序
+		const src = block.getAttribute('src');
+		if (!src) return 0;
+		const scope = block.parentElement?.closest('.markdown-embed-content, .internal-embed-content')
+			|| this.getHostMarkdownView(block)?.contentEl
+			|| document.body;
+		const siblings = (Array.from(scope.querySelectorAll('.markdown-embed, .internal-embed')) as HTMLElement[])
+			.filter((el) => el.getAttribute('src') === src && this.getBlockSourcePath(el) === hostPath);
+		return Math.max(0, siblings.indexOf(block));
+	}
+
+	/**
+	 * 实时预览中嵌入块对应的源文件偏移；不在宿主的编辑器中时返回 null
+	 */
+	private getEditorOffset(block: HTMLElement, hostPath: string): number | null {
+		const view = this.getHostMarkdownView(block);
+		if (!view || view.file?.path !== hostPath || view.getMode() !== 'source') return null;
+		// MarkdownView.editor.cm 为 CodeMirror 6 的 EditorView
+		const cm = (view.editor as (Editor & { cm?: EditorView }) | undefined)?.cm;
+		if (!cm || !cm.contentDOM.contains(block)) return null;
+		try {
+			return cm.posAtDOM(block);
+		} catch {
+			return null;
 		}
-		
-		// 使用更安全的方法生成唯一ID
-		// 1. 使用文件路径的哈希值
-		const pathHash = this.simpleHash(activeFilePath);
-		// 2. 使用文件名的哈希值
-		const nameHash = this.simpleHash(fileName);
-		// 3. 使用嵌套层级
-		// 4. 使用父级上下文
-		// 5. 使用块在DOM中的位置（作为最后的保险）
-		const blockIndex = Array.from(block.parentElement?.children || []).indexOf(block);
-		
-		const baseId = `embedded-${pathHash}-${nameHash}-level${nestLevel}${parentContext}-pos${blockIndex}`;
-		
-		return baseId;
 	}
 	
 	/**
@@ -2651,9 +3958,6 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	public manualTrigger() {
 		this.log('Manual trigger called');
 		this.processEmbeddedBlocks();
-		setTimeout(() => {
-			this.reprocessAllNestedEmbeds();
-		}, 500);
 	}
 
 	/**
@@ -2691,10 +3995,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		}
 
 		// 移除所有我们添加的编辑器元素
-		const editor = block.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
-		if (editor) {
-			editor.remove();
-		}
+		this.destroyInlineEditor(block);
 
 		// 关键：处理原始容器，将内容移回主容器而不是删除
 		const original = block.querySelector('.embedded-note-original') as HTMLElement | null;
@@ -2719,6 +4020,8 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		block.removeAttribute('data-nest-level');
 		block.removeAttribute('data-editing');
 		block.removeAttribute('data-file-link');
+		block.removeAttribute('data-link-subpath');
+		block.removeAttribute('data-editable');
 		block.removeAttribute('tabindex');
 		block.removeAttribute('data-original-html');
 		
@@ -2736,6 +4039,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		enhancedBlocks.forEach((el) => {
 			// 逐块清理事件监听器
 			this.removeTrackedEventListenersForRoot(el as HTMLElement);
+			this.clearRefreshedContent(el as HTMLElement);
 			this.removeTitleBarFromBlock(el as HTMLElement);
 		});
 
@@ -2746,7 +4050,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		});
 
 		// 处理所有可能存在的编辑器元素
-		const allEditors = document.querySelectorAll('textarea.embedded-note-editor');
+		const allEditors = document.querySelectorAll('.embedded-note-editor');
 		allEditors.forEach((editor) => {
 			editor.remove();
 		});
@@ -2774,9 +4078,18 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 			block.removeAttribute('data-nest-level');
 			block.removeAttribute('data-editing');
 			block.removeAttribute('data-file-link');
+			block.removeAttribute('data-link-subpath');
+			block.removeAttribute('data-editable');
+			block.removeAttribute('data-source-path');
+			block.removeAttribute('data-source-line');
+			block.removeAttribute('data-source-index');
 			block.removeAttribute('tabindex');
 			block.removeAttribute('data-original-html');
 			
+			// 移除为 aria-controls 分配的内容区域 id
+			const content = this.getEmbedContent(block);
+			if (content && content.id.startsWith('embedded-note-content-')) content.removeAttribute('id');
+			
 			// 移除插件添加的类名
 			block.classList.remove('embedded-note-collapsed');
 			
@@ -2784,7 +4097,6 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		});
 
 		// 清理内存引用
-		this.embeddedBlocks.clear();
 		this.collapseStates.clear();
 
 
@@ -2811,10 +4123,7 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 		}
 
 		// 移除编辑器元素
-		const editor = block.querySelector('textarea.embedded-note-editor') as HTMLTextAreaElement | null;
-		if (editor) {
-			editor.remove();
-		}
+		this.destroyInlineEditor(block);
 
 		// 处理原始容器，将内容移回主容器
 		const original = block.querySelector('.embedded-note-original') as HTMLElement | null;
@@ -2843,6 +4152,586 @@ export default class EmbeddedNoteEnhancerPlugin extends Plugin {
 	
 }
 
+/**
+ * 路径匹配：含通配符时按 glob 匹配（** 可跨文件夹，* 与 ? 不跨），否则视为文件夹前缀
+ */
+function matchPathPattern(path: string, pattern: string): boolean {
+	const normalized = pattern.trim().replace(/^\/+|\/+$/g, '');
+	if (!normalized) return true;
+	if (!/[*?]/.test(normalized)) return path === normalized || path.startsWith(normalized + '/');
+	const source = normalized.split(/(\*\*\/|\*\*|\*|\?)/).map((part) => {
+		if (part === '**/') return '(?:.*/)?';
+		if (part === '**') return '.*';
+		if (part === '*') return '[^/]*';
+		if (part === '?') return '[^/]';
+		return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}).join('');
+	return new RegExp(`^${source}$`).test(path);
+}
+
+/** 统计字数：中日韩文字逐字计数，其他文字按单词计数 */
+function countWords(text: string): number {
+	const cjk = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+	const cjkCount = (text.match(cjk) || []).length;
+	const wordCount = (text.replace(cjk, ' ').match(/[A-Za-z0-9\u00C0-\u024F]+(?:['’-][A-Za-z0-9\u00C0-\u024F]+)*/g) || []).length;
+	return cjkCount + wordCount;
+}
+
+/** 只替换编辑器中实际变化的部分，光标与选区随之映射，不影响焦点 */
+function replaceEditorText(view: EditorView, text: string) {
+	const current = view.state.doc.toString();
+	if (current === text) return;
+	const max = Math.min(current.length, text.length);
+	let start = 0;
+	while (start < max && current.charCodeAt(start) === text.charCodeAt(start)) start++;
+	let end = 0;
+	while (end < max - start && current.charCodeAt(current.length - 1 - end) === text.charCodeAt(text.length - 1 - end)) end++;
+	view.dispatch({ changes: { from: start, to: current.length - end, insert: text.slice(start, text.length - end) } });
+}
+
+/** Obsidian 内部的 Markdown 编辑器（未公开），只声明本插件用到的部分 */
+interface InternalMarkdownEditor {
+	editor: Editor & { cm: EditorView };
+	_loaded?: boolean;
+	set(value: string, clear: boolean): void;
+	unload(): void;
+	destroy?(): void;
+}
+
+/** 内部编辑器通过 owner 获取所属文件（用于链接补全、图片路径）与显示模式 */
+interface InternalEditorOwner extends MarkdownFileInfo {
+	editMode?: InternalMarkdownEditor;
+	onMarkdownScroll(): void;
+	getMode(): string;
+}
+
+type InternalMarkdownEditorClass = new (app: App, containerEl: HTMLElement, owner: InternalEditorOwner) => InternalMarkdownEditor;
+
+/** 内部嵌入注册表中 Markdown 嵌入的构造函数及其返回的嵌入，仅用于取得编辑器类 */
+type InternalMarkdownEmbedFactory = (
+	context: { app: App; containerEl: HTMLElement; state: Record<string, unknown> },
+	file: TFile | null,
+	subpath: string
+) => { editable: boolean; editMode?: object; showEditor(): void; unload(): void };
+
+interface AppWithEmbedRegistry extends App {
+	embedRegistry?: { embedByExtension: Record<string, InternalMarkdownEmbedFactory | undefined> };
+}
+
+// Obsidian 内部 Markdown 编辑器类：undefined 表示尚未解析，null 表示不可用
+let markdownEditorClass: InternalMarkdownEditorClass | null | undefined = undefined;
+
+/**
+ * 取得 Obsidian 内部的 Markdown 编辑器类，与笔记编辑器同源：语法高亮、格式化快捷键、
+ * Vim 模式与折叠都遵循用户的编辑器设置。该类未公开，借助嵌入注册表临时创建一个 Markdown 嵌入取得其原型
+ */
+function resolveMarkdownEditorClass(app: App, warn: (message: string, ...args: unknown[]) => void): InternalMarkdownEditorClass | null {
+	if (markdownEditorClass !== undefined) return markdownEditorClass;
+	markdownEditorClass = null;
+	try {
+		const createEmbed = (app as AppWithEmbedRegistry).embedRegistry?.embedByExtension.md;
+		if (!createEmbed) throw new Error('Markdown embed is not registered');
+		const embed = createEmbed({ app, containerEl: document.createElement('div'), state: {} }, null, '');
+		embed.editable = true;
+		embed.showEditor();
+		if (embed.editMode) {
+			markdownEditorClass = Object.getPrototypeOf(Object.getPrototypeOf(embed.editMode)).constructor as InternalMarkdownEditorClass;
+		}
+		embed.unload();
+	} catch (error) {
+		warn('Obsidian markdown editor unavailable, using the fallback CodeMirror editor', error);
+	}
+	return markdownEditorClass;
+}
+
+/**
+ * 内部编辑器不可用时的替代编辑器：Markdown 语法与高亮、撤销历史和默认快捷键，
+ * 不含 Obsidian 的格式化命令与 Vim 模式
+ */
+function createFallbackEditorView(parent: HTMLElement, value: string): EditorView {
+	return new EditorView({
+		parent,
+		doc: value,
+		extensions: [
+			markdown(),
+			syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+			history(),
+			keymap.of([...defaultKeymap, ...historyKeymap]),
+			EditorView.lineWrapping
+		]
+	});
+}
+
+/**
+ * 在 parent 中创建原地编辑器。聚焦时压入独立的快捷键作用域并将其设为 activeEditor，
+ * 使格式化等编辑器命令作用于该编辑器而非宿主笔记
+ */
+function createInlineEditor(
+	app: App,
+	parent: HTMLElement,
+	file: TFile | null,
+	value: string,
+	handlers: { onChange: () => void; onBlur: () => void; onSave: () => void },
+	warn: (message: string, ...args: unknown[]) => void
+): InlineEditor {
+	const containerEl = parent.createDiv({ cls: 'embedded-note-editor' });
+	const scope = new Scope(app.scope);
+	scope.register(['Mod'], 's', () => {
+		handlers.onSave();
+		return false;
+	});
+
+	let view: EditorView;
+	let markdownEditor: InternalMarkdownEditor | null = null;
+	let owner: InternalEditorOwner | null = null;
+	const EditorClass = resolveMarkdownEditorClass(app, warn);
+	if (EditorClass) {
+		owner = { app, file, hoverPopover: null, onMarkdownScroll: () => {}, getMode: () => 'source' };
+		markdownEditor = new EditorClass(app, containerEl, owner);
+		owner.editMode = markdownEditor;
+		owner.editor = markdownEditor.editor;
+		markdownEditor.set(value, false);
+		view = markdownEditor.editor.cm;
+	} else {
+		view = createFallbackEditorView(containerEl, value);
+	}
+	view.dispatch({
+		effects: StateEffect.appendConfig.of(EditorView.updateListener.of((update) => {
+			if (update.docChanged) handlers.onChange();
+		}))
+	});
+
+	let previousEditor: MarkdownFileInfo | null = null;
+	containerEl.addEventListener('focusin', () => {
+		app.keymap.pushScope(scope);
+		if (owner && app.workspace.activeEditor !== owner) {
+			previousEditor = app.workspace.activeEditor;
+			app.workspace.activeEditor = owner;
+		}
+	});
+	containerEl.addEventListener('focusout', (e: FocusEvent) => {
+		if (e.relatedTarget instanceof Node && containerEl.contains(e.relatedTarget)) return;
+		app.keymap.popScope(scope);
+		if (owner && app.workspace.activeEditor === owner) app.workspace.activeEditor = previousEditor;
+		handlers.onBlur();
+	});
+
+	return {
+		containerEl,
+		view,
+		destroy: () => {
+			app.keymap.popScope(scope);
+			if (owner && app.workspace.activeEditor === owner) app.workspace.activeEditor = previousEditor;
+			if (markdownEditor) {
+				if (markdownEditor._loaded) markdownEditor.unload();
+				markdownEditor.destroy?.();
+			} else {
+				view.destroy();
+			}
+			containerEl.remove();
+		}
+	};
+}
+
+/**
+ * 计算两组行之间的最长公共子序列，返回 a 中每行在 b 中对应的行号（未匹配为 -1）。
+ * 先去掉公共前后缀，剩余部分过大时不再细分，整体视为修改
+ */
+function matchLines(a: string[], b: string[]): number[] {
+	const matches: number[] = new Array(a.length).fill(-1);
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		matches[prefix] = prefix;
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+		matches[a.length - 1 - suffix] = b.length - 1 - suffix;
+		suffix++;
+	}
+
+	const n = a.length - prefix - suffix;
+	const m = b.length - prefix - suffix;
+	if (n === 0 || m === 0 || n * m > 4000000) return matches;
+
+	// lengths[i][j]：a[prefix+i..] 与 b[prefix+j..] 的 LCS 长度
+	const width = m + 1;
+	const lengths = new Uint32Array((n + 1) * width);
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lengths[i * width + j] = a[prefix + i] === b[prefix + j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+	let i = 0;
+	let j = 0;
+	while (i < n && j < m) {
+		if (a[prefix + i] === b[prefix + j]) {
+			matches[prefix + i] = prefix + j;
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return matches;
+}
+
+/**
+ * 以 base 为共同祖先对 mine、theirs 做按行三方合并（diff3）
+ */
+function mergeLines(base: string[], mine: string[], theirs: string[]): MergeChunk[] {
+	const toMine = matchLines(base, mine);
+	const toTheirs = matchLines(base, theirs);
+	const same = (x: string[], y: string[]) => x.length === y.length && x.every((line, i) => line === y[i]);
+	const chunks: MergeChunk[] = [];
+	const pushResolved = (lines: string[]) => {
+		if (lines.length === 0) return;
+		const last = chunks[chunks.length - 1];
+		if (last && last.type === 'resolved') last.lines.push(...lines);
+		else chunks.push({ type: 'resolved', lines: [...lines] });
+	};
+
+	let o = 0;
+	let a = 0;
+	let b = 0;
+	for (;;) {
+		// 下一个在三方中都存在的同步行
+		let j = o;
+		while (j < base.length && (toMine[j] < 0 || toTheirs[j] < 0)) j++;
+		if (j < base.length && j === o && toMine[j] === a && toTheirs[j] === b) {
+			pushResolved([base[o]]);
+			o++;
+			a++;
+			b++;
+			continue;
+		}
+
+		const mineEnd = j < base.length ? toMine[j] : mine.length;
+		const theirsEnd = j < base.length ? toTheirs[j] : theirs.length;
+		const baseSeg = base.slice(o, j);
+		const mineSeg = mine.slice(a, mineEnd);
+		const theirsSeg = theirs.slice(b, theirsEnd);
+		if (same(mineSeg, baseSeg)) pushResolved(theirsSeg);
+		else if (same(theirsSeg, baseSeg) || same(mineSeg, theirsSeg)) pushResolved(mineSeg);
+		else chunks.push({ type: 'conflict', base: baseSeg, mine: mineSeg, theirs: theirsSeg });
+
+		if (j >= base.length) break;
+		o = j;
+		a = mineEnd;
+		b = theirsEnd;
+	}
+	return chunks;
+}
+
+/**
+ * 按行比较 a、b，得到把 a 变为 b 所需删除/新增的行
+ */
+function diffLines(a: string[], b: string[]): Array<{ type: 'same' | 'removed' | 'added'; text: string }> {
+	const matches = matchLines(a, b);
+	const result: Array<{ type: 'same' | 'removed' | 'added'; text: string }> = [];
+	let j = 0;
+	a.forEach((line, i) => {
+		if (matches[i] < 0) {
+			result.push({ type: 'removed', text: line });
+			return;
+		}
+		while (j < matches[i]) result.push({ type: 'added', text: b[j++] });
+		result.push({ type: 'same', text: line });
+		j++;
+	});
+	while (j < b.length) result.push({ type: 'added', text: b[j++] });
+	return result;
+}
+
+/**
+ * 历史版本预览：显示恢复该版本相对当前内容的变化，确认后恢复
+ */
+class RevisionModal extends Modal {
+	constructor(app: App, private filePath: string, private revision: NoteRevision, private current: string, private onRestore: () => Promise<void>) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(t('history.title', { time: new Date(this.revision.time).toLocaleString() }));
+		this.modalEl.addClass('embedded-note-revision-modal');
+		contentEl.createEl('p', { text: t('history.description', { path: this.filePath }) });
+
+		const diff = diffLines(this.current.split('\n'), this.revision.content.split('\n'));
+		const diffEl = contentEl.createDiv({ cls: 'embedded-note-diff' });
+		if (diff.every((line) => line.type === 'same')) {
+			diffEl.createDiv({ cls: 'embedded-note-diff-empty', text: t('history.identical') });
+		}
+		// 只显示变化行及其前后 3 行
+		const context = 3;
+		const near = (index: number) => diff.slice(Math.max(0, index - context), index + context + 1).some((line) => line.type !== 'same');
+		let skipped = false;
+		diff.forEach((line, index) => {
+			if (line.type === 'same' && !near(index)) {
+				if (!skipped) diffEl.createDiv({ cls: 'embedded-note-diff-skip', text: '⋯' });
+				skipped = true;
+				return;
+			}
+			skipped = false;
+			const prefix = line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  ';
+			diffEl.createDiv({ cls: `embedded-note-diff-line is-${line.type}`, text: prefix + line.text });
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => button
+				.setButtonText(t('history.close'))
+				.onClick(() => this.close()))
+			.addButton((button) => button
+				.setButtonText(t('history.restore'))
+				.setWarning()
+				.onClick(async () => {
+					await this.onRestore();
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+type UnsavedChoice = 'save' | 'discard' | 'cancel';
+
+/**
+ * 未保存修改确认：保存、放弃或取消触发关闭编辑器的操作，关闭对话框视为取消
+ */
+class UnsavedChangesModal extends Modal {
+	private settled = false;
+
+	constructor(app: App, private fileNames: string[], private onResolve: (choice: UnsavedChoice) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(t('unsaved.title'));
+		contentEl.createEl('p', { text: t('unsaved.description', { names: this.fileNames.join(t('list.separator')) }) });
+
+		new Setting(contentEl)
+			.addButton((button) => button
+				.setButtonText(t('unsaved.cancel'))
+				.onClick(() => this.close()))
+			.addButton((button) => button
+				.setButtonText(t('unsaved.discard'))
+				.setWarning()
+				.onClick(() => {
+					this.settle('discard');
+					this.close();
+				}))
+			.addButton((button) => button
+				.setButtonText(t('unsaved.save'))
+				.setCta()
+				.onClick(() => {
+					this.settle('save');
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.settle('cancel');
+	}
+
+	private settle(choice: UnsavedChoice) {
+		if (this.settled) return;
+		this.settled = true;
+		this.onResolve(choice);
+	}
+}
+
+/**
+ * 合并对话框：逐个冲突块展示基准/我的/外部版本，可选择一方、保留两者或手动编辑结果
+ */
+class EmbedMergeModal extends Modal {
+	private results: string[];
+	/** 冲突块是否删除全部行；空文本本身表示一个空行，不能据此判断 */
+	private deleted: boolean[];
+	private settled = false;
+
+	constructor(app: App, private filePath: string, private chunks: MergeChunk[], private onResolve: (merged: string | null) => void) {
+		super(app);
+		this.results = chunks.map((chunk) => chunk.type === 'resolved' ? chunk.lines.join('\n') : chunk.mine.join('\n'));
+		this.deleted = chunks.map((chunk) => chunk.type === 'conflict' && chunk.mine.length === 0);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(t('merge.title'));
+		this.modalEl.addClass('embedded-note-merge-modal');
+		contentEl.createEl('p', {
+			text: t('merge.description', { path: this.filePath })
+		});
+
+		this.chunks.forEach((chunk, index) => {
+			if (chunk.type === 'resolved') {
+				this.renderContext(contentEl, chunk.lines, index);
+			} else {
+				this.renderConflict(contentEl, chunk, index);
+			}
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => button
+				.setButtonText(t('merge.cancel'))
+				.onClick(() => this.close()))
+			.addButton((button) => button
+				.setButtonText(t('merge.save'))
+				.setCta()
+				.onClick(() => {
+					this.settle(this.results.filter((_, i) => !this.deleted[i]).join('\n'));
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.settle(null);
+	}
+
+	private settle(merged: string | null) {
+		if (this.settled) return;
+		this.settled = true;
+		this.onResolve(merged);
+	}
+
+	/** 无冲突部分只显示与冲突相邻的几行作为上下文 */
+	private renderContext(parent: HTMLElement, lines: string[], index: number) {
+		const context = 3;
+		const hasBefore = index > 0;
+		const hasAfter = index < this.chunks.length - 1;
+		if (lines.length <= context * 2 || (!hasBefore && !hasAfter)) {
+			if (hasBefore || hasAfter) parent.createEl('pre', { cls: 'embedded-note-merge-context', text: lines.join('\n') });
+			return;
+		}
+		const shown = [
+			...(hasBefore ? lines.slice(0, context) : []),
+			'⋯',
+			...(hasAfter ? lines.slice(-context) : [])
+		];
+		parent.createEl('pre', { cls: 'embedded-note-merge-context', text: shown.join('\n') });
+	}
+
+	private renderConflict(parent: HTMLElement, chunk: Extract<MergeChunk, { type: 'conflict' }>, index: number) {
+		const hunk = parent.createDiv({ cls: 'embedded-note-merge-hunk' });
+		const versions = hunk.createDiv({ cls: 'embedded-note-merge-versions' });
+		([[t('merge.base'), chunk.base], [t('merge.mine'), chunk.mine], [t('merge.theirs'), chunk.theirs]] as Array<[string, string[]]>).forEach(([label, lines]) => {
+			const column = versions.createDiv({ cls: 'embedded-note-merge-version' });
+			column.createDiv({ cls: 'embedded-note-merge-label', text: label });
+			column.createEl('pre', { text: lines.join('\n') });
+		});
+
+		const result = hunk.createEl('textarea', { cls: 'embedded-note-merge-result' });
+		result.value = this.results[index];
+		result.placeholder = t('merge.deletedPlaceholder');
+		result.setAttribute('aria-label', t('merge.result'));
+		// 输入即表示保留这些行（即使只是一个空行）；占位提示只在删除状态下显示
+		const setDeleted = (deleted: boolean) => {
+			this.deleted[index] = deleted;
+			result.classList.toggle('is-deleted', deleted);
+		};
+		setDeleted(this.deleted[index]);
+		result.addEventListener('input', () => {
+			this.results[index] = result.value;
+			setDeleted(false);
+		});
+		const use = (lines: string[]) => {
+			result.value = lines.join('\n');
+			this.results[index] = result.value;
+			setDeleted(lines.length === 0);
+		};
+
+		new Setting(hunk)
+			.addButton((button) => button.setButtonText(t('merge.useMine')).onClick(() => use(chunk.mine)))
+			.addButton((button) => button.setButtonText(t('merge.useTheirs')).onClick(() => use(chunk.theirs)))
+			.addButton((button) => button.setButtonText(t('merge.keepBoth')).onClick(() => use([...chunk.mine, ...chunk.theirs])))
+			.addButton((button) => button.setButtonText(t('merge.deleteLines')).onClick(() => use([])));
+	}
+}
+
+/**
+ * 实时预览扩展：监听编辑器内容区域中嵌入小部件的插入与加载，
+ * 只把相关的嵌入交给插件处理，不依赖全局 DOM 观察或定时扫描
+ */
+function createLivePreviewExtension(plugin: EmbeddedNoteEnhancerPlugin) {
+	const embedSelector = '.internal-embed, .markdown-embed';
+
+	return ViewPlugin.fromClass(class {
+		private observer: MutationObserver;
+		private pending: Set<HTMLElement> = new Set();
+		private frame: number | null = null;
+
+		constructor(private view: EditorView) {
+			this.observer = new MutationObserver((mutations) => this.collect(mutations));
+			this.observer.observe(view.contentDOM, {
+				childList: true,
+				subtree: true,
+				attributes: true,
+				attributeFilter: ['class']
+			});
+			this.queue(Array.from(view.contentDOM.querySelectorAll(embedSelector)) as HTMLElement[]);
+		}
+
+		update(update: ViewUpdate) {
+			// 视口变化时 CodeMirror 可能复用已有的小部件 DOM，补处理一次丢失标题栏的嵌入
+			if (update.viewportChanged) {
+				const missing = (Array.from(this.view.contentDOM.querySelectorAll(embedSelector)) as HTMLElement[])
+					.filter((el) => !el.querySelector('.embedded-note-title-bar') && !el.hasAttribute('data-embedded-note-skipped'));
+				this.queue(missing);
+			}
+		}
+
+		destroy() {
+			this.observer.disconnect();
+			if (this.frame !== null) cancelAnimationFrame(this.frame);
+			this.pending.clear();
+		}
+
+		/** 从变更记录中收集新插入或刚完成加载的嵌入小部件 */
+		private collect(mutations: MutationRecord[]) {
+			const found: HTMLElement[] = [];
+			mutations.forEach((mutation) => {
+				if (mutation.type === 'attributes') {
+					const target = mutation.target as HTMLElement;
+					if (target.matches(embedSelector) && target.classList.contains('is-loaded')) found.push(target);
+					return;
+				}
+				mutation.addedNodes.forEach((node) => {
+					if (!(node instanceof HTMLElement) || node.closest('.embedded-note-title-bar')) return;
+					if (node.matches(embedSelector)) found.push(node);
+					node.querySelectorAll(embedSelector).forEach((el) => found.push(el as HTMLElement));
+					// 嵌入内容晚于小部件插入时，处理其所在的嵌入块
+					const host = node.parentElement?.closest(embedSelector) as HTMLElement | null;
+					if (host) found.push(host);
+				});
+			});
+			this.queue(found.filter((el) => !el.querySelector('.embedded-note-title-bar')));
+		}
+
+		/** 合并同一帧内的处理请求 */
+		private queue(embeds: HTMLElement[]) {
+			if (embeds.length === 0) return;
+			embeds.forEach((el) => this.pending.add(el));
+			if (this.frame !== null) return;
+			this.frame = requestAnimationFrame(() => {
+				this.frame = null;
+				const embeds = Array.from(this.pending).filter((el) => el.isConnected);
+				this.pending.clear();
+				const sourcePath = this.view.state.field(editorInfoField, false)?.file?.path || '';
+				plugin.enhanceEditorEmbeds(embeds, sourcePath);
+			});
+		}
+	});
+}
+
 /**
  * 设置标签页
  */
@@ -2858,14 +4747,14 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
-		containerEl.createEl('h1', { text: 'Embedded Note Enhancer 设置' });
+		containerEl.createEl('h1', { text: t('settings.heading') });
 
 
 
 		// 字体大小
 		new Setting(containerEl)
-			.setName('字体大小')
-			.setDesc('设置标题栏字体大小')
+			.setName(t('settings.fontSize.name'))
+			.setDesc(t('settings.fontSize.desc'))
 			.addDropdown(dropdown => dropdown
 				.addOption('12px', '12px')
 				.addOption('14px', '14px')
@@ -2893,10 +4782,42 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 					this.updateTitleBarStyles();
 				}));
 
+		// 标题来源
+		new Setting(containerEl)
+			.setName(t('settings.titleSource.name'))
+			.setDesc(t('settings.titleSource.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('link', t('settings.titleSource.link'))
+				.addOption('alias', t('settings.titleSource.alias'))
+				.addOption('frontmatter', t('settings.titleSource.frontmatter'))
+				.addOption('firstAlias', t('settings.titleSource.firstAlias'))
+				.addOption('heading', t('settings.titleSource.heading'))
+				.addOption('basename', t('settings.titleSource.basename'))
+				.addOption('path', t('settings.titleSource.path'))
+				.setValue(this.plugin.settings.titleSource)
+				.onChange(async (value) => {
+					this.plugin.settings.titleSource = value as TitleSource;
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
+		// 标题模板
+		new Setting(containerEl)
+			.setName(t('settings.titleTemplate.name'))
+			.setDesc(t('settings.titleTemplate.desc'))
+			.addText(text => text
+				.setPlaceholder('{{title}} · {{folder}}')
+				.setValue(this.plugin.settings.titleTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.titleTemplate = value;
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
 		// 显示折叠图标
 		new Setting(containerEl)
-			.setName('显示折叠图标')
-			.setDesc('在标题栏右侧显示折叠/展开图标')
+			.setName(t('settings.showCollapseIcon.name'))
+			.setDesc(t('settings.showCollapseIcon.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.showCollapseIcon)
 				.onChange(async (value) => {
@@ -2905,37 +4826,64 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 					this.updateTitleBarStyles();
 				}));
 
-		// 显示编辑按钮
+		// 标题栏操作的顺序与位置
+		this.displayTitleBarActions(containerEl);
+
+		// 显示标签徽章
+		new Setting(containerEl)
+			.setName(t('settings.showTagBadges.name'))
+			.setDesc(t('settings.showTagBadges.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showTagBadges)
+				.onChange(async (value) => {
+					this.plugin.settings.showTagBadges = value;
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
+		// 显示修改时间徽章
+		new Setting(containerEl)
+			.setName(t('settings.showModifiedBadge.name'))
+			.setDesc(t('settings.showModifiedBadge.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showModifiedBadge)
+				.onChange(async (value) => {
+					this.plugin.settings.showModifiedBadge = value;
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
+		// 显示字数徽章
 		new Setting(containerEl)
-			.setName('显示编辑按钮')
-			.setDesc('在标题栏右侧显示编辑按钮，点击可以原地编辑嵌入内容')
+			.setName(t('settings.showWordCountBadge.name'))
+			.setDesc(t('settings.showWordCountBadge.desc'))
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.showEditButton)
+				.setValue(this.plugin.settings.showWordCountBadge)
 				.onChange(async (value) => {
-					this.plugin.settings.showEditButton = value;
+					this.plugin.settings.showWordCountBadge = value;
 					await this.plugin.saveSettings();
 					this.updateTitleBarStyles();
 				}));
 
-		// 显示跳转按钮
+		// 显示反向链接徽章
 		new Setting(containerEl)
-			.setName('显示跳转按钮')
-			.setDesc('在标题栏右侧显示跳转按钮，点击可以跳转到对应文件')
+			.setName(t('settings.showBacklinkBadge.name'))
+			.setDesc(t('settings.showBacklinkBadge.desc'))
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.showJumpButton)
+				.setValue(this.plugin.settings.showBacklinkBadge)
 				.onChange(async (value) => {
-					this.plugin.settings.showJumpButton = value;
+					this.plugin.settings.showBacklinkBadge = value;
 					await this.plugin.saveSettings();
 					this.updateTitleBarStyles();
 				}));
 
 		// 跳转方式
 		new Setting(containerEl)
-			.setName('跳转方式')
-			.setDesc('选择跳转按钮的行为：在新标签页中打开文件，或在当前视图中打开文件')
+			.setName(t('settings.jumpMode.name'))
+			.setDesc(t('settings.jumpMode.desc'))
 			.addDropdown(dropdown => dropdown
-				.addOption('newTab', '新标签页中打开')
-				.addOption('currentView', '当前视图中打开')
+				.addOption('newTab', t('settings.jumpMode.newTab'))
+				.addOption('currentView', t('settings.jumpMode.currentView'))
 				.setValue(this.plugin.settings.jumpInNewTab ? 'newTab' : 'currentView')
 				.onChange(async (value) => {
 					this.plugin.settings.jumpInNewTab = value === 'newTab';
@@ -2944,8 +4892,8 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 
 		// 仅手动保存
 		new Setting(containerEl)
-			.setName('仅手动保存')
-			.setDesc('关闭自动保存，仅在 Ctrl+S 或点击完成时保存')
+			.setName(t('settings.manualSaveOnly.name'))
+			.setDesc(t('settings.manualSaveOnly.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.manualSaveOnly)
 				.onChange(async (value) => {
@@ -2953,12 +4901,50 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-        // 移除"编辑预览（数学等）"设置项，回退到单窗口体验
+		// 编辑预览
+		new Setting(containerEl)
+			.setName(t('settings.editPreview.name'))
+			.setDesc(t('settings.editPreview.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.livePreviewEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.livePreviewEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.applyLivePreviewState();
+				}));
+
+		// 编辑预览布局
+		new Setting(containerEl)
+			.setName(t('settings.previewLayout.name'))
+			.setDesc(t('settings.previewLayout.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('side', t('settings.previewLayout.side'))
+				.addOption('tabs', t('settings.previewLayout.tabs'))
+				.setValue(this.plugin.settings.editPreviewLayout)
+				.onChange(async (value) => {
+					this.plugin.settings.editPreviewLayout = value as 'side' | 'tabs';
+					await this.plugin.saveSettings();
+					this.plugin.applyLivePreviewState();
+				}));
+
+		// 历史版本数量
+		new Setting(containerEl)
+			.setName(t('settings.historyLimit.name'))
+			.setDesc(t('settings.historyLimit.desc'))
+			.addText(text => text
+				.setPlaceholder('20')
+				.setValue(String(this.plugin.settings.historyLimit))
+				.onChange(async (value) => {
+					const limit = parseInt(value, 10);
+					if (isNaN(limit) || limit < 0) return;
+					this.plugin.settings.historyLimit = limit;
+					await this.plugin.saveSettings();
+				}));
 
 		// 编辑时显示属性
 		new Setting(containerEl)
-			.setName('编辑时显示属性')
-			.setDesc('在编辑模式下显示文件的 frontmatter 属性（YAML）。关闭后，编辑时将不显示属性，但保存时会自动保留原文件的属性')
+			.setName(t('settings.showProperties.name'))
+			.setDesc(t('settings.showProperties.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.showPropertiesInEdit)
 				.onChange(async (value) => {
@@ -2966,10 +4952,50 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// 锁定标签
+		new Setting(containerEl)
+			.setName(t('settings.lockTag.name'))
+			.setDesc(t('settings.lockTag.desc'))
+			.addText(text => text
+				.setPlaceholder('locked')
+				.setValue(this.plugin.settings.lockTag)
+				.onChange(async (value) => {
+					this.plugin.settings.lockTag = value;
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
+		// 受保护的文件夹
+		new Setting(containerEl)
+			.setName(t('settings.protectedFolders.name'))
+			.setDesc(t('settings.protectedFolders.desc'))
+			.addTextArea(text => text
+				.setPlaceholder('templates')
+				.setValue(this.plugin.settings.protectedFolders.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.protectedFolders = value.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+					await this.plugin.saveSettings();
+					this.updateTitleBarStyles();
+				}));
+
+		this.displayRules(containerEl);
+
+		// 清理失效的折叠状态
+		new Setting(containerEl)
+			.setName(t('settings.prune.name'))
+			.setDesc(t('settings.prune.desc', { count: Object.keys(this.plugin.settings.collapseStates).length }))
+			.addButton(button => button
+				.setButtonText(t('settings.prune.button'))
+				.onClick(() => {
+					const removed = this.plugin.pruneStaleCollapseStates();
+					new Notice(t('notice.pruned', { count: removed }));
+					this.display();
+				}));
+
 		// 调试模式
 		new Setting(containerEl)
-			.setName('调试模式')
-			.setDesc('开启后会在控制台输出详细的调试信息，用于问题排查')
+			.setName(t('settings.debugMode.name'))
+			.setDesc(t('settings.debugMode.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.debugMode)
 				.onChange(async (value) => {
@@ -2978,61 +5004,237 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 				}));
 	}
 
-	/**
-	 * 创建折叠图标
-	 */
-	private createCollapseIcon(): HTMLElement {
-		const collapseIcon = document.createElement('span');
-		collapseIcon.className = 'embedded-note-collapse-icon';
-		collapseIcon.textContent = '▼';
-		// 移除直接样式设置，使用CSS类
-		return collapseIcon;
+	/** 标题栏操作列表：每个操作可选择显示在标题栏、收入菜单或隐藏，并调整顺序 */
+	private displayTitleBarActions(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName(t('settings.titleBarActions.name'))
+			.setDesc(t('settings.titleBarActions.desc'));
+
+		const actions = this.plugin.settings.titleBarActions;
+		const save = async () => {
+			await this.plugin.saveSettings();
+			this.updateTitleBarStyles();
+		};
+		const move = async (index: number, offset: number) => {
+			const next = [...actions];
+			[next[index], next[index + offset]] = [next[index + offset], next[index]];
+			this.plugin.settings.titleBarActions = next;
+			await save();
+			this.display();
+		};
+
+		actions.forEach((item, index) => {
+			new Setting(containerEl)
+				.setClass('embedded-note-action-setting')
+				.setName(t(`settings.titleBarActions.${item.action}`))
+				.addDropdown(dropdown => dropdown
+					.addOption('bar', t('settings.titleBarActions.bar'))
+					.addOption('menu', t('settings.titleBarActions.menu'))
+					.addOption('hidden', t('settings.titleBarActions.hidden'))
+					.setValue(item.placement)
+					.onChange(async (value) => {
+						item.placement = value as TitleBarActionSetting['placement'];
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip(t('settings.moveUp'))
+					.setDisabled(index === 0)
+					.onClick(() => void move(index, -1)))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip(t('settings.moveDown'))
+					.setDisabled(index === actions.length - 1)
+					.onClick(() => void move(index, 1)));
+		});
 	}
 
 	/**
-	 * 创建编辑按钮
+	 * 嵌入规则列表：每条规则可调整顺序、启停与删除，条件为空表示不限制
 	 */
-	private createEditButton(titleBar: HTMLElement): HTMLElement {
-		const editBtn = document.createElement('button');
-		editBtn.className = 'embedded-note-edit-btn';
-		editBtn.textContent = '编辑';
-		// 移除直接样式设置，使用CSS类
+	private displayRules(containerEl: HTMLElement) {
+		containerEl.createEl('h2', { text: t('rules.heading') });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: t('rules.description')
+		});
 
-		// 添加编辑按钮事件处理 - 使用插件的方法
-		const onEditClick = (e: MouseEvent) => {
-			e.stopPropagation();
-			const blockId = titleBar.getAttribute('data-block-id');
-			if (!blockId) return;
-			
-			// 触发插件重新处理这个块，让插件来处理编辑逻辑
-			this.plugin.processEmbeddedBlocks();
+		const rules = this.plugin.settings.rules;
+		const save = async () => {
+			await this.plugin.saveSettings();
+		};
+		const move = async (index: number, offset: number) => {
+			const next = [...rules];
+			[next[index], next[index + offset]] = [next[index + offset], next[index]];
+			this.plugin.settings.rules = next;
+			await save();
+			this.display();
+		};
+		const parseLimit = (value: string): number | null => {
+			const number = parseInt(value, 10);
+			return isNaN(number) || number < 0 ? null : number;
 		};
-		editBtn.addEventListener('click', onEditClick);
 
-		return editBtn;
+		rules.forEach((rule, index) => {
+			const ruleEl = containerEl.createDiv({ cls: 'embedded-note-rule' });
+			new Setting(ruleEl)
+				.setName(t('rules.name', { index: index + 1 }))
+				.addText(text => text
+					.setPlaceholder(t('rules.namePlaceholder'))
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						rule.name = value;
+						await save();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip(t('rules.enabled'))
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip(t('settings.moveUp'))
+					.setDisabled(index === 0)
+					.onClick(() => void move(index, -1)))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip(t('settings.moveDown'))
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => void move(index, 1)))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('rules.delete'))
+					.onClick(async () => {
+						this.plugin.settings.rules = rules.filter((r) => r !== rule);
+						await save();
+						this.display();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('rules.targetFolder.name'))
+				.setDesc(t('rules.targetFolder.desc'))
+				.addText(text => text
+					.setPlaceholder(t('rules.any'))
+					.setValue(rule.targetFolder)
+					.onChange(async (value) => {
+						rule.targetFolder = value;
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('rules.targetTag.name'))
+				.setDesc(t('rules.targetTag.desc'))
+				.addText(text => text
+					.setPlaceholder(t('rules.any'))
+					.setValue(rule.targetTag)
+					.onChange(async (value) => {
+						rule.targetTag = value;
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('rules.hostFolder.name'))
+				.setDesc(t('rules.hostFolder.desc'))
+				.addText(text => text
+					.setPlaceholder(t('rules.any'))
+					.setValue(rule.hostFolder)
+					.onChange(async (value) => {
+						rule.hostFolder = value;
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('rules.nestLevel.name'))
+				.setDesc(t('rules.nestLevel.desc'))
+				.addText(text => text
+					.setPlaceholder(t('rules.min'))
+					.setValue(rule.minNestLevel === null ? '' : String(rule.minNestLevel))
+					.onChange(async (value) => {
+						rule.minNestLevel = parseLimit(value);
+						await save();
+					}))
+				.addText(text => text
+					.setPlaceholder(t('rules.max'))
+					.setValue(rule.maxNestLevel === null ? '' : String(rule.maxNestLevel))
+					.onChange(async (value) => {
+						rule.maxNestLevel = parseLimit(value);
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('rules.lines.name'))
+				.setDesc(t('rules.lines.desc'))
+				.addText(text => text
+					.setPlaceholder(t('rules.min'))
+					.setValue(rule.minLines === null ? '' : String(rule.minLines))
+					.onChange(async (value) => {
+						rule.minLines = parseLimit(value);
+						await save();
+					}))
+				.addText(text => text
+					.setPlaceholder(t('rules.max'))
+					.setValue(rule.maxLines === null ? '' : String(rule.maxLines))
+					.onChange(async (value) => {
+						rule.maxLines = parseLimit(value);
+						await save();
+					}));
+
+			const actions = new Setting(ruleEl)
+				.setName(t('rules.actions.name'))
+				.setDesc(t('rules.actions.desc'));
+			([
+				['collapsed', t('rules.action.collapsed')],
+				['readOnly', t('rules.action.readOnly')],
+				['hideTitleBar', t('rules.action.hideTitleBar')],
+				['skip', t('rules.action.skip')]
+			] as Array<['collapsed' | 'readOnly' | 'hideTitleBar' | 'skip', string]>).forEach(([key, label]) => {
+				const labelEl = actions.controlEl.createEl('label', { cls: 'embedded-note-rule-action' });
+				const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+				checkbox.checked = rule[key];
+				checkbox.addEventListener('change', async () => {
+					rule[key] = checkbox.checked;
+					await save();
+				});
+				labelEl.appendText(label);
+			});
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('rules.add'))
+				.onClick(async () => {
+					this.plugin.settings.rules = [...rules, {
+						name: '',
+						enabled: true,
+						targetFolder: '',
+						targetTag: '',
+						hostFolder: '',
+						minNestLevel: null,
+						maxNestLevel: null,
+						minLines: null,
+						maxLines: null,
+						collapsed: false,
+						readOnly: false,
+						hideTitleBar: false,
+						skip: false
+					}];
+					await save();
+					this.display();
+				}));
 	}
 
 	/**
-	 * 创建跳转按钮
+	 * 创建折叠图标
 	 */
-	private createJumpButton(titleBar: HTMLElement): HTMLElement {
-		const jumpBtn = document.createElement('button');
-		jumpBtn.className = 'embedded-note-jump-btn';
-		jumpBtn.textContent = '跳转';
+	private createCollapseIcon(): HTMLElement {
+		const collapseIcon = document.createElement('span');
+		collapseIcon.className = 'embedded-note-collapse-icon';
+		setIcon(collapseIcon, 'chevron-down');
+		collapseIcon.setAttribute('aria-hidden', 'true');
 		// 移除直接样式设置，使用CSS类
-
-		// 添加跳转按钮事件处理
-		const onJumpClick = (e: MouseEvent) => {
-			e.stopPropagation();
-			const fileName = titleBar.textContent?.trim() || '';
-			if (fileName) {
-				// 使用插件的方法进行跳转
-				(this.plugin as any).jumpToFile(fileName);
-			}
-		};
-		jumpBtn.addEventListener('click', onJumpClick);
-
-		return jumpBtn;
+		return collapseIcon;
 	}
 
 	/**
@@ -3045,6 +5247,15 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 		const titleBars = document.querySelectorAll('.embedded-note-title-bar');
 		titleBars.forEach((titleBar) => {
 			const titleBarElement = titleBar as HTMLElement;
+
+			// 按标题来源与模板刷新标题文本
+			const titleHost = titleBarElement.closest('.markdown-embed, .internal-embed') as HTMLElement | null;
+			if (titleHost) {
+				this.plugin.refreshTitleText(titleHost);
+				void this.plugin.updateBadges(titleHost);
+				// 按操作的顺序与位置重建按钮，其中会同步锁定状态
+				this.plugin.refreshTitleBarActions(titleHost);
+			}
 			
 			// 处理折叠图标
 			let collapseIcon = titleBarElement.querySelector('.embedded-note-collapse-icon') as HTMLElement;
@@ -3063,34 +5274,6 @@ class EmbeddedNoteEnhancerSettingTab extends PluginSettingTab {
 			}
 			}
 
-			// 处理编辑按钮
-			let editBtn = titleBarElement.querySelector('.embedded-note-edit-btn') as HTMLElement;
-			if (this.plugin.settings.showEditButton && !editBtn) {
-				// 需要显示但不存在，创建它
-				editBtn = this.createEditButton(titleBarElement);
-				titleBarElement.appendChild(editBtn);
-			} else if (editBtn) {
-				if (this.plugin.settings.showEditButton) {
-					editBtn.classList.remove('embedded-note-hidden');
-				} else {
-					editBtn.classList.add('embedded-note-hidden');
-				}
-			}
-
-			// 处理跳转按钮
-			let jumpBtn = titleBarElement.querySelector('.embedded-note-jump-btn') as HTMLElement;
-			if (this.plugin.settings.showJumpButton && !jumpBtn) {
-				// 需要显示但不存在，创建它
-				jumpBtn = this.createJumpButton(titleBarElement);
-				titleBarElement.appendChild(jumpBtn);
-			} else if (jumpBtn) {
-				if (this.plugin.settings.showJumpButton) {
-					jumpBtn.classList.remove('embedded-note-hidden');
-				} else {
-					jumpBtn.classList.add('embedded-note-hidden');
-				}
-			}
-
 			// 当用户关闭原地编辑时，立即将对应内容置为只读
 			const block = titleBarElement.closest('.markdown-embed') as HTMLElement | null;
 			if (block) {